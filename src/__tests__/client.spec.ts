@@ -15,7 +15,30 @@ import {
   CustomDomain,
   CustomDomainStatus,
   VerificationMethod,
+  PayLinkOrderStatus,
+  StripeConnectStatus,
+  ImportSource,
+  ShopProductStatus,
+  ShopProductSource,
+  ShopProductType,
+  ShopOrderStatus,
+  PrintJobStatus,
+  PrintJobType,
+  PrintLabelFormat,
 } from "../types";
+import {
+  HoulaError,
+  HoulaValidationError,
+  HoulaAuthError,
+  HoulaNotFoundError,
+  HoulaConflictError,
+  HoulaRateLimitError,
+  HoulaPlanLimitError,
+  HoulaTimeoutError,
+  HoulaAbortError,
+  HoulaNetworkError,
+  HoulaInvalidTransitionError,
+} from "../errors";
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -47,6 +70,8 @@ describe("HoulaClient", () => {
     ...overrides,
   });
 
+  const respond = (body: unknown) => mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve(body) });
+
   beforeEach(() => {
     client = new HoulaClient(mockConfig);
     vi.clearAllMocks();
@@ -54,6 +79,7 @@ describe("HoulaClient", () => {
   });
 
   afterEach(() => {
+    vi.useRealTimers();
     vi.restoreAllMocks();
   });
 
@@ -104,6 +130,12 @@ describe("HoulaClient", () => {
         expect.any(Object)
       );
     });
+
+    it("should throw error for invalid retry.maxAttempts", () => {
+      expect(() => new HoulaClient({ ...mockConfig, retry: { maxAttempts: 0 } })).toThrow(
+        "retry.maxAttempts must be a positive integer"
+      );
+    });
   });
 
   // ==================== Factory Function Test ====================
@@ -183,6 +215,94 @@ describe("HoulaClient", () => {
       expect(result.data).toEqual([]);
       expect(result.total).toBe(0);
     });
+
+    it("should send filters, search and sorting from ListLinksOptions", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ data: [], total: 0, page: 2, pageCount: 0, count: 0 }),
+      });
+
+      await client.getLinks({
+        page: 2,
+        limit: 50,
+        tagIds: ["tag-1", "tag-2"],
+        status: LinkStatus.ACTIVE,
+        healthStatus: LinkHealthStatus.DEAD,
+        customDomainId: "domain-1",
+        createdByType: LinkCreatedType.API,
+        createdFrom: "2026-01-01",
+        createdTo: "2026-01-31",
+        search: "promo",
+        sortBy: "hitsCount",
+        sortOrder: "desc",
+      });
+
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.pathname).toBe("/api/link");
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        page: "2",
+        limit: "50",
+        tagIds: "tag-1,tag-2",
+        status: "active",
+        healthStatus: "dead",
+        customDomainId: "domain-1",
+        createdByType: "api",
+        createdFrom: "2026-01-01",
+        createdTo: "2026-01-31",
+        search: "promo",
+        sortBy: "hitsCount",
+        sortOrder: "desc",
+      });
+    });
+
+    it("should default page and limit when using ListLinksOptions", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ data: [], total: 0, page: 1, pageCount: 0, count: 0 }),
+      });
+
+      await client.getLinks({ search: "docs" });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining("/api/link?page=1&limit=20&search=docs"),
+        expect.any(Object)
+      );
+    });
+  });
+
+  // ==================== iterateLinks Tests ====================
+  describe("iterateLinks", () => {
+    it("should walk every page of links", async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ data: [createMockLink({ id: "a" })], total: 2, page: 1, pageCount: 2, count: 1 }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ data: [createMockLink({ id: "b" })], total: 2, page: 2, pageCount: 2, count: 1 }),
+        });
+
+      const ids: string[] = [];
+      for await (const link of client.iterateLinks({ limit: 1 })) ids.push(link.id);
+
+      expect(ids).toEqual(["a", "b"]);
+      expect(mockFetch.mock.calls[0][0]).toContain("page=1&limit=1");
+      expect(mockFetch.mock.calls[1][0]).toContain("page=2&limit=1");
+    });
+
+    it("should forward filters to every page", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ data: [createMockLink()], total: 1, page: 1, pageCount: 1, count: 1 }),
+      });
+
+      for await (const _ of client.iterateLinks({ status: LinkStatus.EXPIRED })) {
+        // drain
+      }
+
+      expect(mockFetch.mock.calls[0][0]).toContain("page=1&limit=100&status=expired");
+    });
   });
 
   // ==================== getLinkById Tests ====================
@@ -284,8 +404,29 @@ describe("HoulaClient", () => {
 
       await client.checkAvailability("check-this-key");
       expect(mockFetch).toHaveBeenCalledWith(
-        expect.stringContaining("/check-this-key/availability")
+        expect.stringContaining("/check-this-key/availability"),
+        expect.objectContaining({ headers: {} })
+      );
+    });
+
+    it("should apply request options without sending the API key", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ available: true }),
+      });
+
+      await client.checkAvailability("check-this-key", { workspaceId: "ws-1", headers: { "X-Trace-Id": "t" } });
+      expect(mockFetch.mock.calls[0][1].headers).toEqual({ "X-Workspace-Id": "ws-1", "X-Trace-Id": "t" });
+    });
+
+    it("should throw HoulaAbortError when aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(client.checkAvailability("key", { signal: controller.signal })).rejects.toBeInstanceOf(
+        HoulaAbortError
       );
+      expect(mockFetch).not.toHaveBeenCalled();
     });
   });
 
@@ -465,6 +606,138 @@ describe("HoulaClient", () => {
     });
   });
 
+  // ==================== createLinks Tests ====================
+  describe("createLinks", () => {
+    it("should return per-item results in input order without aborting on failures", async () => {
+      mockFetch.mockImplementation((_url: string, init: RequestInit) => {
+        const body = JSON.parse(init.body as string);
+        if (body.url === "bad") {
+          return Promise.resolve({
+            ok: false,
+            status: 400,
+            statusText: "Bad Request",
+            json: () => Promise.resolve({ message: ["url must be an URL address"] }),
+          });
+        }
+        return Promise.resolve({ ok: true, json: () => Promise.resolve(createMockLink({ url: body.url })) });
+      });
+
+      const results = await client.createLinks([
+        { url: "https://a.com" },
+        { url: "bad" },
+        { url: "https://c.com" },
+      ]);
+
+      expect(results).toHaveLength(3);
+      expect(results[0]).toEqual({ ok: true, link: expect.objectContaining({ url: "https://a.com" }) });
+      expect(results[1]).toEqual({ ok: false, error: expect.any(HoulaValidationError), input: { url: "bad" } });
+      expect(results[2]).toEqual({ ok: true, link: expect.objectContaining({ url: "https://c.com" }) });
+    });
+
+    it("should respect the concurrency limit", async () => {
+      let active = 0;
+      let maxActive = 0;
+      mockFetch.mockImplementation(async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+        return { ok: true, json: () => Promise.resolve(createMockLink()) };
+      });
+
+      const dtos = Array.from({ length: 10 }, (_, i) => ({ url: `https://example.com/${i}` }));
+      await client.createLinks(dtos, { concurrency: 3 });
+
+      expect(mockFetch).toHaveBeenCalledTimes(10);
+      expect(maxActive).toBe(3);
+    });
+
+    it("should send per-item idempotency keys and source, and report progress", async () => {
+      mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve(createMockLink()) });
+      const progress: number[] = [];
+
+      await client.createLinks([{ url: "https://a.com" }, { url: "https://b.com" }], {
+        concurrency: 1,
+        source: LinkCreatedType.WORDPRESS,
+        idempotencyKey: (_input, index) => `batch-1-${index}`,
+        onProgress: (completed) => progress.push(completed),
+      });
+
+      expect(mockFetch.mock.calls[0][1].headers["Idempotency-Key"]).toBe("batch-1-0");
+      expect(mockFetch.mock.calls[1][1].headers["Idempotency-Key"]).toBe("batch-1-1");
+      expect(mockFetch.mock.calls[0][1].headers["X-Source"]).toBe("wordpress");
+      expect(progress).toEqual([1, 2]);
+    });
+
+    it("should return an empty array for an empty batch", async () => {
+      expect(await client.createLinks([])).toEqual([]);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  // ==================== Bulk Update / Delete / Tag Tests ====================
+  describe("bulk link operations", () => {
+    const tag = (id: string) => ({ id, name: id, createdAt: "" });
+    const okJson = (body: unknown) => Promise.resolve({ ok: true, json: () => Promise.resolve(body) });
+    const notFound = () =>
+      Promise.resolve({ ok: false, status: 404, statusText: "Not Found", json: () => Promise.resolve({ message: "Link not found" }) });
+
+    it("should update many links and aggregate failures", async () => {
+      mockFetch.mockImplementation((url: string) =>
+        url.endsWith("/missing") ? notFound() : okJson(createMockLink({ title: "New" }))
+      );
+
+      const report = await client.updateLinks(["a", "missing", "b"], { title: "New" });
+
+      expect(report.total).toBe(3);
+      expect(report.succeeded.map((s) => s.id).sort()).toEqual(["a", "b"]);
+      expect(report.failed).toEqual([{ id: "missing", error: expect.any(HoulaNotFoundError) }]);
+      expect(report.skipped).toEqual([]);
+      expect(mockFetch.mock.calls[0][1].method).toBe("PATCH");
+    });
+
+    it("should delete many links", async () => {
+      mockFetch.mockImplementation(() => okJson({ success: true, message: "deleted" }));
+
+      const report = await client.deleteLinks(["a", "b"]);
+
+      expect(report.succeeded).toHaveLength(2);
+      expect(mockFetch.mock.calls.every((call) => call[1].method === "DELETE")).toBe(true);
+    });
+
+    it("should add tags while preserving existing ones", async () => {
+      mockFetch.mockImplementation((url: string, init: RequestInit) => {
+        if (init.method === "PATCH") return okJson(createMockLink());
+        if (url.endsWith("/a")) return okJson(createMockLink({ id: "a", tags: [tag("t1")] }));
+        return okJson(createMockLink({ id: "b", tags: [tag("t1"), tag("t2")] }));
+      });
+
+      const report = await client.addTagsToLinks(["a", "b"], ["t2"]);
+
+      const patches = mockFetch.mock.calls.filter((call) => call[1].method === "PATCH");
+      expect(patches).toHaveLength(1);
+      expect(patches[0][0]).toContain("/api/link/a");
+      expect(JSON.parse(patches[0][1].body).tagIds).toEqual(["t1", "t2"]);
+      expect(report.succeeded.map((s) => s.id)).toEqual(["a"]);
+      expect(report.skipped).toEqual(["b"]);
+    });
+
+    it("should remove tags while preserving the others", async () => {
+      mockFetch.mockImplementation((url: string, init: RequestInit) => {
+        if (init.method === "PATCH") return okJson(createMockLink());
+        if (url.endsWith("/a")) return okJson(createMockLink({ id: "a", tags: [tag("t1"), tag("t2")] }));
+        return okJson(createMockLink({ id: "b", tags: [tag("t3")] }));
+      });
+
+      const report = await client.removeTagsFromLinks(["a", "b"], ["t2"]);
+
+      const patches = mockFetch.mock.calls.filter((call) => call[1].method === "PATCH");
+      expect(patches).toHaveLength(1);
+      expect(JSON.parse(patches[0][1].body).tagIds).toEqual(["t1"]);
+      expect(report.skipped).toEqual(["b"]);
+    });
+  });
+
   // ==================== updateLink Tests ====================
   describe("updateLink", () => {
     it("should update link URL", async () => {
@@ -853,6 +1126,350 @@ describe("HoulaClient", () => {
     });
   });
 
+  // ==================== Typed Errors Tests ====================
+  describe("typed errors", () => {
+    const errorResponse = (status: number, body: unknown, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      statusText: "Error",
+      headers: new Headers(headers),
+      json: () => Promise.resolve(body),
+    });
+
+    it("should throw HoulaNotFoundError with request context on 404", async () => {
+      mockFetch.mockResolvedValue(
+        errorResponse(404, { message: "Link not found" }, { "X-Request-Id": "req-123" })
+      );
+
+      const error = await client.getLinkById("missing").catch((e) => e);
+
+      expect(error).toBeInstanceOf(HoulaNotFoundError);
+      expect(error).toBeInstanceOf(HoulaError);
+      expect(error.status).toBe(404);
+      expect(error.requestId).toBe("req-123");
+      expect(error.method).toBe("GET");
+      expect(error.url).toBe("https://api.test.com/api/link/missing");
+      expect(error.body).toEqual({ message: "Link not found" });
+    });
+
+    it("should throw HoulaValidationError with field errors on 400", async () => {
+      mockFetch.mockResolvedValue(
+        errorResponse(400, {
+          statusCode: 400,
+          message: ["url must be an URL address", "maxHits must not be greater than 1000000"],
+          error: "Bad Request",
+        })
+      );
+
+      const error = await client.createLink({ url: "nope" }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HoulaValidationError);
+      expect(error.method).toBe("POST");
+      expect(error.message).toBe("url must be an URL address; maxHits must not be greater than 1000000");
+      expect(error.fieldErrors).toEqual([
+        { field: "url", message: "url must be an URL address" },
+        { field: "maxHits", message: "maxHits must not be greater than 1000000" },
+      ]);
+    });
+
+    it("should throw HoulaAuthError on 401 and 403", async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(401, { message: "Invalid API key" }));
+      mockFetch.mockResolvedValueOnce(errorResponse(403, { message: "Access denied" }));
+
+      await expect(client.getLinks()).rejects.toBeInstanceOf(HoulaAuthError);
+      await expect(client.getLinks()).rejects.toBeInstanceOf(HoulaAuthError);
+    });
+
+    it("should throw HoulaConflictError on 409", async () => {
+      mockFetch.mockResolvedValue(errorResponse(409, { message: "Key already exists" }));
+
+      await expect(
+        client.createLink({ url: "https://example.com", key: "taken" })
+      ).rejects.toBeInstanceOf(HoulaConflictError);
+    });
+
+    it("should throw HoulaRateLimitError with retryAfterMs on 429", async () => {
+      mockFetch.mockResolvedValue(
+        errorResponse(429, { message: "Too Many Requests" }, { "Retry-After": "3" })
+      );
+
+      const error = await client.getLinks().catch((e) => e);
+
+      expect(error).toBeInstanceOf(HoulaRateLimitError);
+      expect(error.retryAfterMs).toBe(3000);
+    });
+
+    it("should throw HoulaPlanLimitError on 402 or plan-limit code", async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(402, { message: "Upgrade required" }));
+      mockFetch.mockResolvedValueOnce(
+        errorResponse(403, { message: "Tag limit reached", code: "PLAN_LIMIT_REACHED" })
+      );
+
+      await expect(client.createTag({ name: "a" })).rejects.toBeInstanceOf(HoulaPlanLimitError);
+      const error = await client.createTag({ name: "b" }).catch((e) => e);
+      expect(error).toBeInstanceOf(HoulaPlanLimitError);
+      expect(error.code).toBe("PLAN_LIMIT_REACHED");
+    });
+
+    it("should throw base HoulaError on 500", async () => {
+      mockFetch.mockResolvedValue(errorResponse(500, { message: "Server error" }));
+
+      const error = await client.getLinks().catch((e) => e);
+
+      expect(error).toBeInstanceOf(HoulaError);
+      expect(error).not.toBeInstanceOf(HoulaValidationError);
+      expect(error.status).toBe(500);
+    });
+
+    it("should throw HoulaNetworkError when fetch rejects", async () => {
+      const cause = new TypeError("fetch failed");
+      mockFetch.mockRejectedValue(cause);
+
+      const error = await client.getLinks().catch((e) => e);
+
+      expect(error).toBeInstanceOf(HoulaNetworkError);
+      expect(error.status).toBeUndefined();
+      expect(error.cause).toBe(cause);
+    });
+
+    it("should throw HoulaTimeoutError when the timeout elapses", async () => {
+      vi.useFakeTimers();
+      mockFetch.mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal!.addEventListener("abort", () =>
+              reject(new DOMException("Aborted", "AbortError"))
+            );
+          })
+      );
+
+      const promise = client.getLinks().catch((e) => e);
+      await vi.advanceTimersByTimeAsync(mockConfig.timeout);
+      const error = await promise;
+      vi.useRealTimers();
+
+      expect(error).toBeInstanceOf(HoulaTimeoutError);
+      expect(error.timeoutMs).toBe(mockConfig.timeout);
+    });
+
+    it("should throw typed errors from uploadOgImage", async () => {
+      mockFetch.mockResolvedValue(errorResponse(404, { message: "Link not found" }));
+
+      const error = await client.uploadOgImage("missing", new Blob(["x"])).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HoulaNotFoundError);
+      expect(error.method).toBe("POST");
+    });
+  });
+
+  // ==================== Retry Policy Tests ====================
+  describe("retry policy", () => {
+    const okResponse = (body: unknown) => ({ ok: true, json: () => Promise.resolve(body) });
+    const failResponse = (status: number, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      statusText: "Error",
+      headers: new Headers(headers),
+      json: () => Promise.resolve({ message: `HTTP ${status}` }),
+    });
+    const emptyPage = { data: [], total: 0, page: 1, pageCount: 0, count: 0 };
+
+    let retryClient: HoulaClient;
+
+    beforeEach(() => {
+      retryClient = new HoulaClient({
+        ...mockConfig,
+        retry: { maxAttempts: 3, baseDelayMs: 1, jitter: false },
+      });
+    });
+
+    it("should not retry by default", async () => {
+      mockFetch.mockResolvedValue(failResponse(502));
+
+      await expect(client.getLinks()).rejects.toThrow("HTTP 502");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should retry GET requests on retryable status codes", async () => {
+      mockFetch
+        .mockResolvedValueOnce(failResponse(502))
+        .mockResolvedValueOnce(failResponse(503))
+        .mockResolvedValueOnce(okResponse(emptyPage));
+
+      const result = await retryClient.getLinks();
+
+      expect(result).toEqual(emptyPage);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should retry network errors", async () => {
+      mockFetch
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockResolvedValueOnce(okResponse(emptyPage));
+
+      await retryClient.getLinks();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should give up after maxAttempts", async () => {
+      mockFetch.mockResolvedValue(failResponse(500));
+
+      await expect(retryClient.getLinks()).rejects.toBeInstanceOf(HoulaError);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not retry non-retryable status codes", async () => {
+      mockFetch.mockResolvedValue(failResponse(404));
+
+      await expect(retryClient.getLinkById("missing")).rejects.toBeInstanceOf(HoulaNotFoundError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not retry POST without an idempotency key", async () => {
+      mockFetch.mockResolvedValue(failResponse(502));
+
+      await expect(retryClient.createLink({ url: "https://example.com" })).rejects.toThrow();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should retry POST when an idempotency key is provided", async () => {
+      mockFetch
+        .mockResolvedValueOnce(failResponse(502))
+        .mockResolvedValueOnce(okResponse(createMockLink()));
+
+      await retryClient.createLink({ url: "https://example.com" }, LinkCreatedType.API, {
+        idempotencyKey: "campaign-42-row-7",
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][1].headers["Idempotency-Key"]).toBe("campaign-42-row-7");
+    });
+
+    it("should honour Retry-After", async () => {
+      vi.useFakeTimers();
+      mockFetch
+        .mockResolvedValueOnce(failResponse(429, { "Retry-After": "2" }))
+        .mockResolvedValueOnce(okResponse(emptyPage));
+
+      const promise = retryClient.getLinks();
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      await promise;
+      vi.useRealTimers();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  // ==================== Rate Limiter Tests ====================
+  describe("rate limiter", () => {
+    const emptyPage = { data: [], total: 0, page: 1, pageCount: 0, count: 0 };
+
+    it("should be disabled by default", () => {
+      expect(client.getRateLimitStatus()).toEqual({
+        requestsPerMinute: undefined,
+        remaining: undefined,
+        queued: 0,
+        lastResponse: undefined,
+      });
+    });
+
+    it("should queue requests beyond the configured budget", async () => {
+      vi.useFakeTimers();
+      const limited = new HoulaClient({ ...mockConfig, rateLimit: { requestsPerMinute: 60, burst: 1 } });
+      mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve(emptyPage) });
+
+      const first = limited.getLinks();
+      const second = limited.getLinks();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(limited.getRateLimitStatus().queued).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await Promise.all([first, second]);
+      vi.useRealTimers();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should seed the budget from the workspace plan when enabled with true", async () => {
+      const seeded = new HoulaClient({ ...mockConfig, workspaceId: "ws-1", rateLimit: true });
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ id: "ws-1", apiRateLimit: 120 }) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(emptyPage) });
+
+      await seeded.getLinks();
+
+      expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/workspaces/ws-1");
+      expect(seeded.getRateLimitStatus().requestsPerMinute).toBe(120);
+    });
+
+    it("should seed from the personal workspace when no workspace is set", async () => {
+      const seeded = new HoulaClient({ ...mockConfig, rateLimit: true });
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve([
+              { id: "team", type: "team", apiRateLimit: 600 },
+              { id: "me", type: "personal", apiRateLimit: 60 },
+            ]),
+        })
+        .mockResolvedValue({ ok: true, json: () => Promise.resolve(emptyPage) });
+
+      await seeded.getLinks();
+
+      expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/workspaces");
+      expect(seeded.getRateLimitStatus().requestsPerMinute).toBe(60);
+    });
+
+    it("should stay unthrottled when the plan cannot be read", async () => {
+      const seeded = new HoulaClient({ ...mockConfig, rateLimit: true });
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 403, statusText: "Forbidden", json: () => Promise.resolve({}) })
+        .mockResolvedValue({ ok: true, json: () => Promise.resolve(emptyPage) });
+
+      await seeded.getLinks();
+      await seeded.getLinks();
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(seeded.getRateLimitStatus().requestsPerMinute).toBeUndefined();
+    });
+
+    it("should allow seeding from PlanLimits via setRateLimit", () => {
+      client.setRateLimit(300);
+
+      expect(client.getRateLimitStatus().requestsPerMinute).toBe(300);
+      expect(client.getRateLimitStatus().remaining).toBe(300);
+    });
+
+    it("should reject a burst that can never hold a token", () => {
+      expect(() => new HoulaClient({ ...mockConfig, rateLimit: { burst: 0 } })).toThrow(
+        "rateLimit.burst must be a finite number of at least 1"
+      );
+      expect(() => new HoulaClient({ ...mockConfig, rateLimit: { burst: Infinity } })).toThrow("rateLimit.burst");
+      expect(() => client.setRateLimit(600, 0.5)).toThrow("burst must be a finite number of at least 1");
+      expect(() => client.setRateLimit(600, NaN)).toThrow("burst must be");
+    });
+
+    it("should expose rate-limit headers from the last response", async () => {
+      client.setRateLimit(100);
+      mockFetch.mockResolvedValue({
+        ok: true,
+        headers: new Headers({ "X-RateLimit-Limit": "100", "X-RateLimit-Remaining": "7", "X-RateLimit-Reset": "12" }),
+        json: () => Promise.resolve(emptyPage),
+      });
+
+      await client.getLinks();
+
+      const status = client.getRateLimitStatus();
+      expect(status.lastResponse).toEqual({ limit: 100, remaining: 7, reset: 12 });
+      expect(status.remaining).toBe(7);
+    });
+  });
+
   // ==================== Request Headers Tests ====================
   describe("request headers", () => {
     it("should include X-API-Key header in all requests", async () => {
@@ -1549,6 +2166,22 @@ describe("HoulaClient", () => {
       });
     });
 
+    describe("iterateWebhookLogs", () => {
+      it("should walk every page of logs with the success filter", async () => {
+        const log = { id: "log-1", webhookId: "wh-uuid-123", event: WebhookEvent.LINK_CLICKED, eventCount: 1, success: false, attempt: 1, createdAt: "" };
+        mockFetch.mockResolvedValue({
+          ok: true,
+          json: () => Promise.resolve({ data: [log], total: 1, page: 1, pageCount: 1, count: 1 }),
+        });
+
+        const logs = [];
+        for await (const entry of client.iterateWebhookLogs("wh-uuid-123", { success: false })) logs.push(entry);
+
+        expect(logs).toEqual([log]);
+        expect(mockFetch.mock.calls[0][0]).toContain("/api/manager/webhook/wh-uuid-123/logs?page=1&limit=100&success=false");
+      });
+    });
+
     describe("getWebhookStats", () => {
       it("should fetch webhook stats", async () => {
         const mockStats = {
@@ -2276,6 +2909,87 @@ describe("HoulaClient", () => {
       });
     });
 
+    describe("migrateToWorkspace", () => {
+      const report = {
+        links: 12,
+        tags: 3,
+        webhooks: 0,
+        pixelPresets: 1,
+        domains: 0,
+        apiKeys: 0,
+        bioPages: 1,
+        qrcodeTemplates: 0,
+      };
+
+      it("should migrate elements into the target workspace", async () => {
+        mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve(report) });
+
+        const result = await client.migrateToWorkspace("ws-team", {
+          sourceWorkspaceId: "ws-personal",
+          links: ["all"],
+          tags: ["tag-1", "tag-2"],
+        });
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          "https://api.test.com/api/workspaces/ws-team/migrate",
+          expect.objectContaining({
+            method: "POST",
+            body: JSON.stringify({ sourceWorkspaceId: "ws-personal", links: ["all"], tags: ["tag-1", "tag-2"] }),
+          }),
+        );
+        expect(result.links).toBe(12);
+      });
+
+      it("should preview a migration as a dry run", async () => {
+        mockFetch.mockResolvedValue({
+          ok: true,
+          json: () =>
+            Promise.resolve({ items: { ...report, links: [{ id: "link-1", name: "promo" }] }, counts: report }),
+        });
+
+        const preview = await client.previewMigrationToWorkspace("ws-team", {
+          sourceWorkspaceId: "ws-personal",
+          links: ["all"],
+        });
+
+        expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+          sourceWorkspaceId: "ws-personal",
+          links: ["all"],
+          dryRun: true,
+        });
+        expect(preview.items.links).toEqual([{ id: "link-1", name: "promo" }]);
+      });
+
+      it("should refuse to migrate a workspace into itself", async () => {
+        await expect(client.migrateToWorkspace("ws-team", { sourceWorkspaceId: "ws-team" })).rejects.toThrow(
+          "cannot migrate a workspace into itself",
+        );
+        expect(mockFetch).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("upgradeWorkspace", () => {
+      it("should convert a personal workspace into a team workspace", async () => {
+        mockFetch.mockResolvedValue({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              teamWorkspace: { ...mockWorkspace, name: "Acme" },
+              personalWorkspace: { ...mockWorkspace, id: "ws-uuid-002", type: "personal" },
+            }),
+        });
+
+        const result = await client.upgradeWorkspace("ws-uuid-001", { teamName: "Acme" });
+
+        expect(mockFetch).toHaveBeenCalledWith(
+          "https://api.test.com/api/workspaces/ws-uuid-001/upgrade",
+          expect.objectContaining({ method: "POST", body: JSON.stringify({ teamName: "Acme" }) }),
+        );
+        expect(result.teamWorkspace.name).toBe("Acme");
+        expect(result.personalWorkspace.id).toBe("ws-uuid-002");
+      });
+    });
+
     describe("error handling", () => {
       it("should throw on 403 (not member)", async () => {
         mockFetch.mockResolvedValue({
@@ -2300,4 +3014,1330 @@ describe("HoulaClient", () => {
       });
     });
   });
+
+  // ==================== Stripe Connect ====================
+  describe("Stripe Connect", () => {
+    it("should start onboarding with return and refresh URLs", async () => {
+      respond({ url: "https://connect.stripe.com/setup/e/acct_123" });
+
+      const result = await client.startStripeConnectOnboarding("https://app.test/done", "https://app.test/retry");
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.test.com/api/stripe-connect/onboarding",
+        expect.objectContaining({
+          method: "POST",
+          body: JSON.stringify({ returnUrl: "https://app.test/done", refreshUrl: "https://app.test/retry" }),
+        }),
+      );
+      expect(result.url).toContain("connect.stripe.com");
+    });
+
+    it("should get a dashboard link", async () => {
+      respond({ url: "https://connect.stripe.com/express/acct_123" });
+
+      await client.getStripeConnectDashboardLink();
+
+      expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/stripe-connect/dashboard-link");
+    });
+
+    it("should get the account status", async () => {
+      respond({ status: "active", chargesEnabled: true, payoutsEnabled: true });
+
+      const result = await client.getStripeConnectStatus();
+
+      expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/stripe-connect/status");
+      expect(result.status).toBe(StripeConnectStatus.ACTIVE);
+    });
+
+    it("should be ready only when charges and payouts are enabled", async () => {
+      respond({ status: "active", chargesEnabled: true, payoutsEnabled: true });
+      expect(await client.isStripeConnectReady()).toBe(true);
+
+      respond({ status: "restricted", chargesEnabled: true, payoutsEnabled: false });
+      expect(await client.isStripeConnectReady()).toBe(false);
+    });
+  });
+
+  // ==================== Pay Links ====================
+  describe("Pay Links", () => {
+    const mockPayLink = {
+      id: "pl-uuid-001",
+      userId: "user-uuid-001",
+      bioPageId: "bio-uuid-001",
+      title: "E-book",
+      productType: "digital",
+      priceInCents: 1999,
+      currency: "EUR",
+      quantitySold: 3,
+      maxPerOrder: 1,
+      productSource: "manual",
+      status: "active",
+      displayOrder: 0,
+      ctaStyle: "default",
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    const mockOrder = {
+      id: "order-uuid-001",
+      orderNumber: "HOU-20260215-AB12",
+      payLinkId: "pl-uuid-001",
+      sellerId: "user-uuid-001",
+      buyerEmail: "buyer@test.com",
+      subtotalCents: 1999,
+      shippingCents: 0,
+      platformFeeCents: 100,
+      totalCents: 1999,
+      currency: "EUR",
+      quantity: 1,
+      status: "paid",
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    it("should list pay links of a bio page", async () => {
+      respond([mockPayLink]);
+
+      const result = await client.listPayLinks("bio-uuid-001");
+
+      expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/pay-links?bioPageId=bio-uuid-001");
+      expect(result[0].title).toBe("E-book");
+    });
+
+    it("should get a pay link", async () => {
+      respond(mockPayLink);
+
+      await client.getPayLink("pl-uuid-001");
+
+      expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/pay-links/pl-uuid-001");
+    });
+
+    it("should create a pay link", async () => {
+      respond(mockPayLink);
+      const dto = { bioPageId: "bio-uuid-001", title: "E-book", priceInCents: 1999 };
+
+      await client.createPayLink(dto);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.test.com/api/pay-links",
+        expect.objectContaining({ method: "POST", body: JSON.stringify(dto) }),
+      );
+    });
+
+    it("should update a pay link", async () => {
+      respond(mockPayLink);
+
+      await client.updatePayLink("pl-uuid-001", { priceInCents: 2499, compareAtPrice: null });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.test.com/api/pay-links/pl-uuid-001",
+        expect.objectContaining({
+          method: "PATCH",
+          body: JSON.stringify({ priceInCents: 2499, compareAtPrice: null }),
+        }),
+      );
+    });
+
+    it("should archive a pay link by setting its status", async () => {
+      respond({ ...mockPayLink, status: "archived" });
+
+      const result = await client.archivePayLink("pl-uuid-001");
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.test.com/api/pay-links/pl-uuid-001",
+        expect.objectContaining({ method: "PATCH", body: JSON.stringify({ status: "archived" }) }),
+      );
+      expect(result.status).toBe("archived");
+    });
+
+    it("should reorder pay links", async () => {
+      respond([mockPayLink]);
+
+      await client.reorderPayLinks("bio-uuid-001", ["pl-uuid-002", "pl-uuid-001"]);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.test.com/api/pay-links/reorder",
+        expect.objectContaining({
+          method: "PATCH",
+          body: JSON.stringify({ bioPageId: "bio-uuid-001", payLinkIds: ["pl-uuid-002", "pl-uuid-001"] }),
+        }),
+      );
+    });
+
+    it("should list orders with filters", async () => {
+      respond({ data: [mockOrder], total: 1, page: 2, pageCount: 2, count: 1 });
+
+      const result = await client.listPayLinkOrders({
+        page: 2,
+        limit: 10,
+        status: PayLinkOrderStatus.PAID,
+        payLinkId: "pl-uuid-001",
+      });
+
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.pathname).toBe("/api/pay-links/orders");
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        page: "2",
+        limit: "10",
+        status: "paid",
+        payLinkId: "pl-uuid-001",
+      });
+      expect(result.data[0].orderNumber).toBe("HOU-20260215-AB12");
+    });
+
+    it("should cap the order page size at 100", async () => {
+      respond({ data: [], total: 0, page: 1, pageCount: 0, count: 0 });
+
+      await client.listPayLinkOrders({ limit: 500 });
+
+      expect(new URL(mockFetch.mock.calls[0][0]).searchParams.get("limit")).toBe("100");
+    });
+
+    it("should iterate over every order", async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ data: [mockOrder], total: 2, page: 1, pageCount: 2, count: 1 }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({ data: [{ ...mockOrder, id: "order-uuid-002" }], total: 2, page: 2, pageCount: 2, count: 1 }),
+        });
+
+      const ids: string[] = [];
+      for await (const order of client.iteratePayLinkOrders({ status: PayLinkOrderStatus.PAID })) ids.push(order.id);
+
+      expect(ids).toEqual(["order-uuid-001", "order-uuid-002"]);
+      expect(mockFetch.mock.calls[1][0]).toContain("page=2&limit=100&status=paid");
+    });
+
+    it("should get an order", async () => {
+      respond(mockOrder);
+
+      await client.getPayLinkOrder("order-uuid-001");
+
+      expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/pay-links/orders/order-uuid-001");
+    });
+
+    it("should refund an order fully or partially", async () => {
+      respond({ ...mockOrder, status: "refunded" });
+
+      await client.refundPayLinkOrder("order-uuid-001");
+      await client.refundPayLinkOrder("order-uuid-001", 500);
+
+      expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/pay-links/orders/order-uuid-001/refund");
+      expect(mockFetch.mock.calls[0][1]).toMatchObject({ method: "POST", body: "{}" });
+      expect(mockFetch.mock.calls[1][1].body).toBe(JSON.stringify({ amountCents: 500 }));
+    });
+
+    it("should get order stats", async () => {
+      respond({ totalRevenue: 5997, totalOrders: 3, totalRefunded: 0, thisMonth: 1999 });
+
+      const stats = await client.getPayLinkOrderStats();
+
+      expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/pay-links/orders/stats");
+      expect(stats.totalOrders).toBe(3);
+    });
+
+    it("should create a checkout session", async () => {
+      respond({ url: "https://checkout.stripe.com/c/pay/cs_test", orderId: "order-uuid-001" });
+      const dto = { payLinkId: "pl-uuid-001", quantity: 1, buyerEmail: "buyer@test.com" };
+
+      const result = await client.createPayLinkCheckout(dto);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.test.com/api/pay-links/checkout",
+        expect.objectContaining({ method: "POST", body: JSON.stringify(dto) }),
+      );
+      expect(result.orderId).toBe("order-uuid-001");
+    });
+
+    it("should get the public order status", async () => {
+      respond({ status: "paid", orderNumber: "HOU-20260215-AB12" });
+
+      const result = await client.getPayLinkOrderStatus("order-uuid-001");
+
+      expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/pay-links/orders/order-uuid-001/status");
+      expect(result.status).toBe(PayLinkOrderStatus.PAID);
+    });
+
+    describe("waitForPayLinkOrder", () => {
+      const status = (value: string, extra = {}) => ({
+        ok: true,
+        json: () => Promise.resolve({ status: value, orderNumber: "HOU-20260215-AB12", ...extra }),
+      });
+
+      it("should poll until the order is paid", async () => {
+        vi.useFakeTimers();
+        mockFetch
+          .mockResolvedValueOnce(status("pending"))
+          .mockResolvedValueOnce(status("pending"))
+          .mockResolvedValueOnce(status("paid"));
+
+        const promise = client.waitForPayLinkOrder("order-uuid-001", { interval: 1000 });
+        await vi.advanceTimersByTimeAsync(2000);
+
+        await expect(promise).resolves.toMatchObject({ status: "paid" });
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+      });
+
+      it("should wait for custom statuses", async () => {
+        vi.useFakeTimers();
+        mockFetch
+          .mockResolvedValueOnce(status("paid"))
+          .mockResolvedValueOnce(status("fulfilled", { downloadUrl: "https://cdn.test.com/file.pdf" }));
+
+        const promise = client.waitForPayLinkOrder("order-uuid-001", {
+          until: [PayLinkOrderStatus.FULFILLED],
+          interval: 500,
+        });
+        await vi.advanceTimersByTimeAsync(500);
+
+        await expect(promise).resolves.toMatchObject({ downloadUrl: "https://cdn.test.com/file.pdf" });
+      });
+
+      it("should stop early when the order fails", async () => {
+        mockFetch.mockResolvedValueOnce(status("failed"));
+
+        const result = await client.waitForPayLinkOrder("order-uuid-001");
+
+        expect(result.status).toBe(PayLinkOrderStatus.FAILED);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+      });
+
+      it("should stop early when the order is partially refunded", async () => {
+        mockFetch
+          .mockResolvedValueOnce(status("processing"))
+          .mockResolvedValueOnce(status(PayLinkOrderStatus.PARTIALLY_REFUNDED));
+
+        const result = await client.waitForPayLinkOrder("order-uuid-001", {
+          until: [PayLinkOrderStatus.FULFILLED],
+          interval: 0,
+        });
+
+        expect(result.status).toBe(PayLinkOrderStatus.PARTIALLY_REFUNDED);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      });
+
+      it("should stop early when the order is ecommerce sync failed", async () => {
+        mockFetch
+          .mockResolvedValueOnce(status("processing"))
+          .mockResolvedValueOnce(status(PayLinkOrderStatus.ECOMMERCE_SYNC_FAILED));
+
+        const result = await client.waitForPayLinkOrder("order-uuid-001", {
+          until: [PayLinkOrderStatus.FULFILLED],
+          interval: 0,
+        });
+
+        expect(result.status).toBe(PayLinkOrderStatus.ECOMMERCE_SYNC_FAILED);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      });
+
+      it("should throw HoulaTimeoutError when the timeout is reached", async () => {
+        vi.useFakeTimers();
+        mockFetch.mockResolvedValue(status("pending"));
+
+        const promise = client.waitForPayLinkOrder("order-uuid-001", { timeout: 3000, interval: 1000 });
+        const assertion = expect(promise).rejects.toBeInstanceOf(HoulaTimeoutError);
+        await vi.advanceTimersByTimeAsync(3000);
+
+        await assertion;
+        expect(mockFetch).toHaveBeenCalledTimes(4);
+      });
+    });
+  });
+
+  // ==================== Imports ====================
+  describe("Imports", () => {
+    const mockJob = {
+      id: "import-uuid-001",
+      userId: "user-uuid-001",
+      workspaceId: "ws-uuid-001",
+      source: "bitly",
+      status: "processing",
+      totalLinks: 10,
+      importedCount: 4,
+      skippedCount: 1,
+      errorCount: 0,
+      skipDuplicates: true,
+      preserveTags: true,
+      preserveCustomSlugs: false,
+      errors: null,
+      failureReason: null,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      completedAt: null,
+    };
+
+    const progress = (status: string, importedCount: number) => ({ ...mockJob, status, importedCount });
+
+    const sseResponse = (...chunks: string[]) => ({
+      ok: true,
+      headers: new Headers({ "content-type": "text/event-stream" }),
+      body: new ReadableStream({
+        start(controller) {
+          for (const chunk of chunks) controller.enqueue(new TextEncoder().encode(chunk));
+          controller.close();
+        },
+      }),
+    });
+
+    const event = (data: unknown, id?: string) => `${id ? `id: ${id}\n` : ""}data: ${JSON.stringify(data)}\n\n`;
+
+    it("should start an import", async () => {
+      respond(mockJob);
+      const dto = { source: ImportSource.BITLY, apiToken: "bitly-token", skipDuplicates: true };
+
+      const result = await client.startImport(dto);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.test.com/api/import",
+        expect.objectContaining({ method: "POST", body: JSON.stringify(dto) }),
+      );
+      expect(result.id).toBe("import-uuid-001");
+    });
+
+    it("should get, list and cancel import jobs", async () => {
+      respond(mockJob);
+      await client.getImportJob("import-uuid-001");
+      respond([mockJob]);
+      await client.listImportJobs();
+      respond({ ...mockJob, status: "cancelled" });
+      await client.cancelImportJob("import-uuid-001");
+
+      expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/import/import-uuid-001");
+      expect(mockFetch.mock.calls[1][0]).toBe("https://api.test.com/api/import");
+      expect(mockFetch.mock.calls[2][0]).toBe("https://api.test.com/api/import/import-uuid-001/cancel");
+      expect(mockFetch.mock.calls[2][1].method).toBe("POST");
+    });
+
+    describe("importLinksFromCsv", () => {
+      const csv = "url,title\nhttps://a.com,A\nnot a url,B\nhttps://c.com,C\n";
+
+      it("should create links directly and report failures by row", async () => {
+        mockFetch
+          .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(createMockLink({ url: "https://a.com" })) })
+          .mockResolvedValueOnce({
+            ok: false,
+            status: 409,
+            statusText: "Conflict",
+            json: () => Promise.resolve({ message: "Key already taken" }),
+          });
+
+        const report = await client.importLinksFromCsv(csv, { concurrency: 1, tagIds: ["tag-1"] });
+
+        expect(report.totalRows).toBe(3);
+        expect(report.created.map((c) => c.row)).toEqual([2]);
+        expect(report.errors).toEqual([
+          { row: 3, message: "Invalid URL: not a url" },
+          expect.objectContaining({ row: 4, message: "Key already taken", error: expect.any(HoulaConflictError) }),
+        ]);
+        expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+          url: "https://a.com",
+          title: "A",
+          tagIds: ["tag-1"],
+        });
+      });
+
+      it("should skip URLs already in the workspace when skipDuplicates is set", async () => {
+        const page = (data: Link[]) => ({ ok: true, json: () => Promise.resolve({ data, total: data.length }) });
+        mockFetch
+          .mockResolvedValueOnce(page([createMockLink({ url: "https://a.com/more" }), createMockLink({ url: "https://a.com" })]))
+          .mockResolvedValueOnce(page([createMockLink({ url: "https://c.com/other" })]))
+          .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(createMockLink({ url: "https://c.com" })) });
+
+        const report = await client.importLinksFromCsv(csv, { concurrency: 1, skipDuplicates: true });
+
+        expect(report.skipped).toEqual([2]);
+        expect(report.created.map((c) => c.row)).toEqual([4]);
+        expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/link?page=1&limit=100&search=https%3A%2F%2Fa.com");
+        expect(JSON.parse(mockFetch.mock.calls[2][1].body)).toEqual({ url: "https://c.com", title: "C" });
+      });
+
+      it("should upload valid rows as an import job", async () => {
+        respond(mockJob);
+
+        const report = await client.importLinksFromCsv(csv, { upload: true, skipDuplicates: false });
+
+        expect(report.job?.id).toBe("import-uuid-001");
+        expect(report.errors).toHaveLength(1);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/import");
+        expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+          source: "csv",
+          links: [
+            { url: "https://a.com", title: "A" },
+            { url: "https://c.com", title: "C" },
+          ],
+          skipDuplicates: false,
+        });
+      });
+    });
+
+    describe("streamImportProgress", () => {
+      it("should yield progress events until the job completes", async () => {
+        mockFetch.mockResolvedValueOnce(
+          sseResponse(event(progress("processing", 4)), ": ping\n\n", event(progress("completed", 9))),
+        );
+
+        const seen: number[] = [];
+        for await (const p of client.streamImportProgress("import-uuid-001")) seen.push(p.importedCount);
+
+        expect(seen).toEqual([4, 9]);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/import/import-uuid-001/progress");
+        expect(mockFetch.mock.calls[0][1].headers.Accept).toBe("text/event-stream");
+      });
+
+      it("should reconnect with Last-Event-ID when the stream drops", async () => {
+        vi.useFakeTimers();
+        mockFetch
+          .mockResolvedValueOnce(sseResponse(event(progress("processing", 4), "evt-1")))
+          .mockResolvedValueOnce(sseResponse(event(progress("completed", 10), "evt-2")));
+
+        const seen: number[] = [];
+        const done = (async () => {
+          for await (const p of client.streamImportProgress("import-uuid-001")) seen.push(p.importedCount);
+        })();
+        await vi.advanceTimersByTimeAsync(1000);
+        await done;
+
+        expect(seen).toEqual([4, 10]);
+        expect(mockFetch.mock.calls[1][1].headers["Last-Event-ID"]).toBe("evt-1");
+        vi.useRealTimers();
+      });
+
+      it("should fall back to polling when SSE is not available", async () => {
+        vi.useFakeTimers();
+        mockFetch
+          .mockResolvedValueOnce({ ok: false, status: 404, statusText: "Not Found", json: () => Promise.resolve({}) })
+          .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(progress("processing", 5)) })
+          .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(progress("completed", 10)) });
+
+        const seen: string[] = [];
+        const done = (async () => {
+          for await (const p of client.streamImportProgress("import-uuid-001", { pollInterval: 500 })) {
+            seen.push(p.status);
+          }
+        })();
+        await vi.advanceTimersByTimeAsync(500);
+        await done;
+
+        expect(seen).toEqual(["processing", "completed"]);
+        expect(mockFetch.mock.calls[1][0]).toBe("https://api.test.com/api/import/import-uuid-001");
+        vi.useRealTimers();
+      });
+
+      it("should fall back to polling when the response is not an event stream", async () => {
+        const cancel = vi.fn().mockResolvedValue(undefined);
+        mockFetch
+          .mockResolvedValueOnce({ ok: true, headers: new Headers({ "content-type": "application/json" }), body: { cancel } })
+          .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(progress("failed", 0)) });
+
+        const seen: string[] = [];
+        for await (const p of client.streamImportProgress("import-uuid-001")) seen.push(p.status);
+
+        expect(seen).toEqual(["failed"]);
+        expect(cancel).toHaveBeenCalledTimes(1);
+      });
+
+      it("should fall back to polling after too many reconnects", async () => {
+        vi.useFakeTimers();
+        mockFetch
+          .mockRejectedValueOnce(new TypeError("fetch failed"))
+          .mockRejectedValueOnce(new TypeError("fetch failed"))
+          .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(progress("completed", 10)) });
+
+        const seen: string[] = [];
+        const done = (async () => {
+          const options = { maxReconnects: 1, reconnectDelay: 100 };
+          for await (const p of client.streamImportProgress("import-uuid-001", options)) seen.push(p.status);
+        })();
+        await vi.advanceTimersByTimeAsync(200);
+        await done;
+
+        expect(seen).toEqual(["completed"]);
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+        vi.useRealTimers();
+      });
+    });
+  });
+
+  // ==================== Shop Products ====================
+  describe("Shop Products", () => {
+    const mockProduct = {
+      id: "prod-uuid-001",
+      userId: "user-uuid-001",
+      title: "T-shirt",
+      productType: "physical",
+      priceCents: 2500,
+      currency: "EUR",
+      trackStock: true,
+      stockQuantity: 10,
+      options: [{ name: "Size", values: ["S", "M"] }],
+      variants: [{ id: "var-uuid-001", options: { Size: "S" }, priceCents: 2500, isActive: true }],
+      requiresShipping: true,
+      displayOrder: 0,
+      status: "active",
+      isFeatured: false,
+      source: "manual",
+      viewsCount: 0,
+      salesCount: 0,
+      averageRating: 0,
+      reviewCount: 0,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    it("should list products with filters", async () => {
+      respond({ data: [mockProduct], total: 1, page: 1, pageCount: 1, count: 1 });
+
+      await client.listShopProducts({
+        status: ShopProductStatus.ACTIVE,
+        source: ShopProductSource.SHOPIFY,
+        productType: ShopProductType.PHYSICAL,
+        collectionIds: ["col-1", "col-2"],
+        limit: 500,
+      });
+
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.pathname).toBe("/api/shop/products");
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        page: "1",
+        limit: "100",
+        status: "active",
+        source: "shopify",
+        productType: "physical",
+        collectionIds: "col-1,col-2",
+      });
+    });
+
+    it("should iterate over every product", async () => {
+      respond({ data: [mockProduct], total: 1, page: 1, pageCount: 1, count: 1 });
+
+      const titles: string[] = [];
+      for await (const product of client.iterateShopProducts({ status: ShopProductStatus.DRAFT })) {
+        titles.push(product.title);
+      }
+
+      expect(titles).toEqual(["T-shirt"]);
+      expect(mockFetch.mock.calls[0][0]).toContain("page=1&limit=100&status=draft");
+    });
+
+    it("should get, create, update and delete a product", async () => {
+      respond(mockProduct);
+
+      await client.getShopProduct("prod-uuid-001");
+      await client.createShopProduct({ title: "T-shirt", priceCents: 2500 });
+      await client.updateShopProduct("prod-uuid-001", { priceCents: 2000 });
+      await client.deleteShopProduct("prod-uuid-001");
+
+      const calls = mockFetch.mock.calls.map(([url, init]) => [init.method ?? "GET", url]);
+      expect(calls).toEqual([
+        ["GET", "https://api.test.com/api/shop/products/prod-uuid-001"],
+        ["POST", "https://api.test.com/api/shop/products"],
+        ["PATCH", "https://api.test.com/api/shop/products/prod-uuid-001"],
+        ["DELETE", "https://api.test.com/api/shop/products/prod-uuid-001"],
+      ]);
+      expect(mockFetch.mock.calls[2][1].body).toBe(JSON.stringify({ priceCents: 2000 }));
+    });
+
+    it("should manage variants", async () => {
+      respond(mockProduct.variants[0]);
+
+      await client.createShopProductVariant("prod-uuid-001", { options: { Size: "M" }, priceCents: 2600 });
+      await client.updateShopProductVariant("prod-uuid-001", "var-uuid-001", { stockQuantity: 4 });
+      await client.deleteShopProductVariant("prod-uuid-001", "var-uuid-001");
+
+      const calls = mockFetch.mock.calls.map(([url, init]) => [init.method, url]);
+      expect(calls).toEqual([
+        ["POST", "https://api.test.com/api/shop/products/prod-uuid-001/variants"],
+        ["PATCH", "https://api.test.com/api/shop/products/prod-uuid-001/variants/var-uuid-001"],
+        ["DELETE", "https://api.test.com/api/shop/products/prod-uuid-001/variants/var-uuid-001"],
+      ]);
+      expect(mockFetch.mock.calls[0][1].body).toBe(JSON.stringify({ options: { Size: "M" }, priceCents: 2600 }));
+    });
+
+    it("should adjust stock", async () => {
+      respond(mockProduct);
+
+      await client.adjustShopProductStock("prod-uuid-001", { delta: -2, variantId: "var-uuid-001", reason: "damaged" });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.test.com/api/shop/products/prod-uuid-001/stock",
+        expect.objectContaining({
+          method: "POST",
+          body: JSON.stringify({ delta: -2, variantId: "var-uuid-001", reason: "damaged" }),
+        }),
+      );
+    });
+
+    it("should feature and reorder products", async () => {
+      respond(mockProduct);
+
+      await client.setShopProductFeatured("prod-uuid-001", true);
+      await client.reorderShopProducts(["prod-uuid-002", "prod-uuid-001"]);
+
+      expect(mockFetch.mock.calls[0][1]).toMatchObject({ method: "PATCH", body: JSON.stringify({ isFeatured: true }) });
+      expect(mockFetch.mock.calls[1][0]).toBe("https://api.test.com/api/shop/products/reorder");
+      expect(mockFetch.mock.calls[1][1]).toMatchObject({
+        method: "PATCH",
+        body: JSON.stringify({ productIds: ["prod-uuid-002", "prod-uuid-001"] }),
+      });
+    });
+  });
+
+  // ==================== Shop Orders ====================
+  describe("Shop Orders", () => {
+    const mockOrder = {
+      id: "order-uuid-001",
+      sellerId: "user-uuid-001",
+      bioPageUsername: "shop",
+      buyerEmail: "buyer@test.com",
+      lineItems: [{ productId: "prod-uuid-001", title: "T-shirt", quantity: 1, unitPriceCents: 2500, totalCents: 2500 }],
+      itemsCount: 1,
+      subtotalCents: 2500,
+      shippingCents: 500,
+      discountCents: 0,
+      totalCents: 3000,
+      currency: "EUR",
+      status: ShopOrderStatus.PAID,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    it("should list orders with filters", async () => {
+      respond({ data: [mockOrder], total: 1, page: 1, pageCount: 1, count: 1 });
+
+      await client.listShopOrders({
+        status: ShopOrderStatus.PAID,
+        from: "2026-01-01",
+        to: "2026-01-31",
+        search: "buyer@test.com",
+        page: 2,
+      });
+
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.pathname).toBe("/api/shop/orders");
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        page: "2",
+        limit: "20",
+        status: "paid",
+        from: "2026-01-01",
+        to: "2026-01-31",
+        search: "buyer@test.com",
+      });
+    });
+
+    it("should iterate over every order", async () => {
+      respond({ data: [mockOrder], total: 1, page: 1, pageCount: 1, count: 1 });
+
+      const ids: string[] = [];
+      for await (const order of client.iterateShopOrders()) ids.push(order.id);
+
+      expect(ids).toEqual(["order-uuid-001"]);
+    });
+
+    it("should fetch the order and mark it shipped with tracking details", async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockOrder) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ ...mockOrder, status: "shipped" }) });
+      const tracking = { carrier: "Colissimo", trackingNumber: "6A123", trackingUrl: "https://track.test/6A123" };
+
+      const result = await client.markShopOrderShipped("order-uuid-001", tracking);
+
+      expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/shop/orders/order-uuid-001");
+      expect(mockFetch.mock.calls[1][0]).toBe("https://api.test.com/api/shop/orders/order-uuid-001/ship");
+      expect(mockFetch.mock.calls[1][1]).toMatchObject({ method: "POST", body: JSON.stringify(tracking) });
+      expect(result.status).toBe(ShopOrderStatus.SHIPPED);
+    });
+
+    it("should skip the fetch when given the order", async () => {
+      respond({ ...mockOrder, status: "delivered" });
+
+      await client.markShopOrderDelivered({ ...mockOrder, status: ShopOrderStatus.SHIPPED });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/shop/orders/order-uuid-001/deliver");
+    });
+
+    it("should reject illegal transitions without calling the API", async () => {
+      const shipped = { ...mockOrder, status: ShopOrderStatus.SHIPPED };
+
+      const error = await client.cancelShopOrder(shipped).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HoulaInvalidTransitionError);
+      expect(error).toMatchObject({ from: "shipped", to: "cancelled", method: "POST" });
+      expect(error.url).toBe("https://api.test.com/api/shop/orders/order-uuid-001/cancel");
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should only deliver unshipped orders for local pickup", async () => {
+      await expect(client.markShopOrderDelivered(mockOrder)).rejects.toBeInstanceOf(HoulaInvalidTransitionError);
+
+      respond({ ...mockOrder, status: "delivered" });
+      await client.markShopOrderDelivered({ ...mockOrder, isLocalPickup: true });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should cancel with a reason and refund fully or partially", async () => {
+      respond(mockOrder);
+
+      await client.cancelShopOrder(mockOrder, "Out of stock");
+      await client.refundShopOrder(mockOrder);
+      await client.refundShopOrder(mockOrder, 500);
+
+      expect(mockFetch.mock.calls[0][1].body).toBe(JSON.stringify({ reason: "Out of stock" }));
+      expect(mockFetch.mock.calls[1][0]).toBe("https://api.test.com/api/shop/orders/order-uuid-001/refund");
+      expect(mockFetch.mock.calls[1][1].body).toBe("{}");
+      expect(mockFetch.mock.calls[2][1].body).toBe(JSON.stringify({ amountCents: 500 }));
+    });
+
+    it("should not refund an order that was never paid", async () => {
+      const pending = { ...mockOrder, status: ShopOrderStatus.PENDING };
+
+      await expect(client.refundShopOrder(pending)).rejects.toThrow(
+        "Cannot move order order-uuid-001 from pending to refunded",
+      );
+    });
+
+    it("should update seller notes", async () => {
+      respond({ ...mockOrder, sellerNotes: "Gift wrap" });
+
+      await client.updateShopOrderSellerNotes("order-uuid-001", "Gift wrap");
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.test.com/api/shop/orders/order-uuid-001",
+        expect.objectContaining({ method: "PATCH", body: JSON.stringify({ sellerNotes: "Gift wrap" }) }),
+      );
+    });
+  });
+
+  // ==================== Print ====================
+  describe("Print", () => {
+    const mockJob = {
+      id: "job-uuid-001",
+      workspaceId: "ws-uuid-001",
+      orderId: "order-uuid-001",
+      type: PrintJobType.SHIPPING_LABEL,
+      status: PrintJobStatus.PENDING,
+      format: PrintLabelFormat.ZPL,
+      payload: "XlhBXlha",
+      attempts: 0,
+      lastError: null,
+      printedAt: null,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    it("should get and update the print config", async () => {
+      respond({ id: "cfg-1", enabled: true, brandName: "Acme" });
+
+      await client.getPrintConfig();
+      await client.updatePrintConfig({ enabled: true, brandName: "Acme" });
+
+      expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/print/config");
+      expect(mockFetch.mock.calls[1][1]).toMatchObject({
+        method: "PATCH",
+        body: JSON.stringify({ enabled: true, brandName: "Acme" }),
+      });
+    });
+
+    it("should list jobs with and without filters", async () => {
+      respond([mockJob]);
+
+      const jobs = await client.listPrintJobs({ status: PrintJobStatus.PENDING, type: PrintJobType.SHIPPING_LABEL });
+      await client.listPrintJobs();
+
+      expect(jobs).toEqual([mockJob]);
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        "https://api.test.com/api/print/jobs?status=pending&type=shipping_label",
+      );
+      expect(mockFetch.mock.calls[1][0]).toBe("https://api.test.com/api/print/jobs");
+    });
+
+    it("should create a job for an order", async () => {
+      respond(mockJob);
+
+      await client.createPrintJob("order-uuid-001", PrintJobType.SHIPPING_LABEL);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.test.com/api/print/jobs",
+        expect.objectContaining({
+          method: "POST",
+          body: JSON.stringify({ orderId: "order-uuid-001", type: "shipping_label" }),
+        }),
+      );
+    });
+
+    it("should retry, cancel and mark jobs as printed", async () => {
+      respond(mockJob);
+
+      await client.retryPrintJob("job-uuid-001");
+      await client.cancelPrintJob("job-uuid-001");
+      await client.markPrintJobPrinted("job-uuid-001");
+
+      expect(mockFetch.mock.calls.map((call) => [call[0], call[1].method])).toEqual([
+        ["https://api.test.com/api/print/jobs/job-uuid-001/retry", "POST"],
+        ["https://api.test.com/api/print/jobs/job-uuid-001/cancel", "POST"],
+        ["https://api.test.com/api/print/jobs/job-uuid-001/printed", "POST"],
+      ]);
+    });
+
+    it("should acknowledge job progress from a print station", async () => {
+      respond({ ...mockJob, status: PrintJobStatus.FAILED, lastError: "Paper jam" });
+
+      await client.ackPrintJob("job-uuid-001", { status: PrintJobStatus.FAILED, error: "Paper jam" });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.test.com/api/print/jobs/job-uuid-001/ack",
+        expect.objectContaining({ method: "POST", body: JSON.stringify({ status: "failed", error: "Paper jam" }) }),
+      );
+    });
+
+    it("should get print stats", async () => {
+      respond({ total: 10, pending: 2, printed: 7, failed: 1 });
+
+      const stats = await client.getPrintStats();
+
+      expect(stats.printed).toBe(7);
+      expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/print/stats");
+    });
+  });
+
+  // ==================== Billing ====================
+  describe("Billing", () => {
+    const limits = {
+      maxLinks: null,
+      maxCustomDomains: 1,
+      maxMembers: 5,
+      maxApiKeys: 3,
+      maxBioPages: 3,
+      maxTags: 100,
+      statsRetentionDays: 365,
+      apiRateLimit: 120,
+      domainFinderDailyLimit: null,
+      canExportCsv: true,
+      showBranding: false,
+    };
+
+    it("should list plans", async () => {
+      respond([{ id: "pro", name: "Pro", prices: { monthly: 900, yearly: 9000 }, limits }]);
+
+      const plans = await client.listPlans();
+
+      expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/billing/plans");
+      expect(plans[0].limits.maxTags).toBe(100);
+    });
+
+    it("should get billing info for the current workspace", async () => {
+      respond({ plan: "pro", interval: "monthly", periodEnd: "2026-12-01", cancelAtPeriodEnd: true, limits });
+      client.setWorkspaceId("ws-team");
+
+      const billing = await client.getBillingInfo();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/workspaces/ws-team/billing");
+      expect(billing.cancelAtPeriodEnd).toBe(true);
+    });
+
+    it("should fall back to the personal workspace", async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve([
+              { id: "ws-team", type: "team" },
+              { id: "ws-personal", type: "personal" },
+            ]),
+        })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ plan: "free", limits }) });
+
+      await client.getBillingInfo();
+
+      expect(mockFetch.mock.calls[1][0]).toBe("https://api.test.com/api/workspaces/ws-personal/billing");
+    });
+
+    it("should create checkout and portal sessions", async () => {
+      respond({ url: "https://checkout.stripe.com/c/pay/cs_test" });
+      client.setWorkspaceId("ws-team");
+
+      const checkout = await client.createBillingCheckout({ plan: "pro", interval: "yearly" });
+      await client.createBillingPortalSession();
+
+      expect(checkout.url).toContain("checkout.stripe.com");
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        "https://api.test.com/api/workspaces/ws-team/billing/checkout",
+        expect.objectContaining({ method: "POST", body: JSON.stringify({ plan: "pro", interval: "yearly" }) }),
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        "https://api.test.com/api/workspaces/ws-team/billing/portal",
+        expect.objectContaining({ method: "POST" }),
+      );
+    });
+  });
+
+  // ==================== Plan Limits ====================
+  describe("Plan Limits", () => {
+    const limits = {
+      maxLinks: null,
+      maxCustomDomains: 1,
+      maxMembers: 5,
+      maxApiKeys: 3,
+      maxBioPages: 3,
+      maxTags: 2,
+      statsRetentionDays: 365,
+      apiRateLimit: 120,
+      domainFinderDailyLimit: null,
+      canExportCsv: true,
+      showBranding: false,
+    };
+
+    /** Answer billing and stats reads from fixtures, and echo every other request */
+    const routeFetch = (stats: Record<string, number>) =>
+      mockFetch.mockImplementation((url: string) => {
+        const body = url.endsWith("/billing") ? { plan: "free", limits } : url.endsWith("/stats") ? stats : { id: "new" };
+        return Promise.resolve({ ok: true, json: () => Promise.resolve(body) });
+      });
+
+    const calledUrls = () => mockFetch.mock.calls.map((call) => call[0]);
+
+    it("should report used, limit and remaining per resource", async () => {
+      client.setWorkspaceId("ws-team");
+      routeFetch({ links: 10, tags: 2, domains: 0 });
+
+      const report = await client.getUsageReport();
+
+      expect(calledUrls()).toEqual([
+        "https://api.test.com/api/workspaces/ws-team/billing",
+        "https://api.test.com/api/workspaces/ws-team/stats",
+      ]);
+      expect(report.resources.tags).toEqual({ used: 2, limit: 2, remaining: 0 });
+      expect(report.resources.links).toEqual({ used: 10, limit: null, remaining: null });
+      expect(report.resources.domains.remaining).toBe(1);
+    });
+
+    it("should not check limits unless enforcePlanLimits is set", async () => {
+      client.setWorkspaceId("ws-team");
+      routeFetch({ tags: 2 });
+
+      await client.createTag({ name: "Promo" });
+
+      expect(calledUrls()).toEqual(["https://api.test.com/api/manager/tag"]);
+    });
+
+    it("should reject creations over the limit without calling the API", async () => {
+      const enforced = new HoulaClient({ ...mockConfig, workspaceId: "ws-team", enforcePlanLimits: true });
+      routeFetch({ tags: 2, bioPages: 3 });
+
+      const error = await enforced.createTag({ name: "Promo" }).catch((e) => e);
+      await expect(enforced.createBioPage({ username: "shop", displayName: "Shop" })).rejects.toBeInstanceOf(HoulaPlanLimitError);
+
+      expect(error).toBeInstanceOf(HoulaPlanLimitError);
+      expect(error).toMatchObject({ resource: "tags", limit: 2, used: 2, code: "PLAN_LIMIT", method: "POST" });
+      expect(error.url).toBe("https://api.test.com/api/manager/tag");
+      expect(error.message).toBe("Plan limit reached: 2/2 tags");
+      // Usage is read once and cached
+      expect(calledUrls()).toEqual([
+        "https://api.test.com/api/workspaces/ws-team/billing",
+        "https://api.test.com/api/workspaces/ws-team/stats",
+      ]);
+    });
+
+    it("should count creations and deletions against the cached usage", async () => {
+      const enforced = new HoulaClient({ ...mockConfig, workspaceId: "ws-team", enforcePlanLimits: true });
+      routeFetch({ domains: 0 });
+
+      await enforced.createDomain({ domain: "go.acme.com" });
+      await expect(enforced.createDomain({ domain: "links.acme.com" })).rejects.toMatchObject({
+        resource: "domains",
+        used: 1,
+      });
+      await enforced.deleteDomain("new");
+      await enforced.createDomain({ domain: "links.acme.com" });
+
+      expect(calledUrls().filter((url) => url === "https://api.test.com/api/domains")).toHaveLength(2);
+    });
+
+    it("should never block links on unlimited plans", async () => {
+      const enforced = new HoulaClient({ ...mockConfig, workspaceId: "ws-team", enforcePlanLimits: true });
+      routeFetch({ links: 100000 });
+
+      await enforced.createLink({ url: "https://example.com" });
+
+      expect(calledUrls()).toContain("https://api.test.com/api/link");
+    });
+
+    it("should send the request when usage cannot be read", async () => {
+      const enforced = new HoulaClient({ ...mockConfig, workspaceId: "ws-team", enforcePlanLimits: true });
+      mockFetch.mockImplementation((url: string) =>
+        Promise.resolve(
+          url.endsWith("/billing")
+            ? { ok: false, status: 403, statusText: "Forbidden", json: () => Promise.resolve({ message: "Owner only" }) }
+            : { ok: true, json: () => Promise.resolve({ id: "tag-1" }) },
+        ),
+      );
+
+      const tag = await enforced.createTag({ name: "Promo" });
+
+      expect(tag.id).toBe("tag-1");
+    });
+  });
+
+  // ==================== Workspace Scoping ====================
+  describe("Workspace Scoping", () => {
+    const workspaceHeaders = () => mockFetch.mock.calls.map((call) => call[1].headers["X-Workspace-Id"]);
+
+    it("should pin the workspace of scoped clients without touching the parent", async () => {
+      respond([]);
+      client.setWorkspaceId("ws-parent");
+      const scopedA = client.forWorkspace("ws-a");
+      const scopedB = client.forWorkspace("ws-b");
+
+      await Promise.all([scopedA.getTags(), scopedB.getTags(), client.getTags()]);
+      client.setWorkspaceId(undefined);
+      await scopedA.getTags();
+
+      expect(workspaceHeaders()).toEqual(["ws-a", "ws-b", "ws-parent", "ws-a"]);
+    });
+
+    it("should not let scoped clients change workspace", () => {
+      const scoped = client.forWorkspace("ws-a");
+
+      expect(() => scoped.setWorkspaceId("ws-b")).toThrow("scoped to workspace ws-a");
+      expect(scoped.forWorkspace("ws-b")).toBeInstanceOf(HoulaClient);
+    });
+
+    it("should share rate limiting with the parent client", async () => {
+      client.setRateLimit(60, 2);
+      const scoped = client.forWorkspace("ws-a");
+      respond([]);
+
+      await scoped.getTags();
+
+      expect(client.getRateLimitStatus()).toMatchObject({ requestsPerMinute: 60, remaining: 1 });
+      expect(scoped.getRateLimitStatus()).toEqual(client.getRateLimitStatus());
+    });
+
+    it("should run a function for every workspace with a scoped client", async () => {
+      mockFetch.mockImplementation((url: string) =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve(url.endsWith("/api/workspaces") ? [{ id: "ws-1" }, { id: "ws-2" }] : [{ id: "tag" }]),
+        }),
+      );
+
+      const results = await client.forEachWorkspace(async (scoped, workspace) => ({
+        id: workspace.id,
+        tags: (await scoped.getTags()).length,
+      }));
+
+      expect(results).toEqual([
+        { id: "ws-1", tags: 1 },
+        { id: "ws-2", tags: 1 },
+      ]);
+      expect(workspaceHeaders()).toEqual([undefined, "ws-1", "ws-2"]);
+    });
+
+    it("should stop scheduling workspaces after the first rejection", async () => {
+      respond(["ws-1", "ws-2", "ws-3", "ws-4", "ws-5"].map((id) => ({ id })));
+      const visited: string[] = [];
+
+      const promise = client.forEachWorkspace(
+        async (_scoped, workspace) => {
+          visited.push(workspace.id);
+          if (workspace.id === "ws-1") throw new Error("boom");
+          await new Promise((resolve) => setTimeout(resolve, 10));
+        },
+        { concurrency: 2 },
+      );
+
+      await expect(promise).rejects.toThrow("boom");
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(visited).toEqual(["ws-1", "ws-2"]);
+    });
+  });
+
+  // ==================== Request Options ====================
+  describe("Request Options", () => {
+    const hangUntilAborted = () =>
+      mockFetch.mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal!.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+          }),
+      );
+
+    it("should override the workspace and merge headers for one call", async () => {
+      respond([]);
+      client.setWorkspaceId("ws-default");
+
+      await client.getTags({ workspaceId: "ws-other", headers: { "X-Trace-Id": "trace-1" } });
+      await client.getTags();
+
+      expect(mockFetch.mock.calls[0][0]).toBe("https://api.test.com/api/manager/tag");
+      expect(mockFetch.mock.calls[0][1].headers).toMatchObject({
+        "X-API-Key": mockConfig.apiKey,
+        "X-Workspace-Id": "ws-other",
+        "X-Trace-Id": "trace-1",
+      });
+      expect(mockFetch.mock.calls[1][1].headers["X-Workspace-Id"]).toBe("ws-default");
+    });
+
+    it("should send the idempotency key of any call", async () => {
+      respond(createMockLink());
+
+      await client.updateLink("test-uuid-123", { title: "New" }, { idempotencyKey: "update-1" });
+
+      expect(mockFetch.mock.calls[0][1].headers["Idempotency-Key"]).toBe("update-1");
+    });
+
+    it("should forward options to bulk items without the idempotency key", async () => {
+      respond(createMockLink());
+
+      await client.updateLinks(["a", "b"], { title: "New" }, {}, { idempotencyKey: "bulk", workspaceId: "ws-1" });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      for (const [, init] of mockFetch.mock.calls) {
+        expect(init.headers["X-Workspace-Id"]).toBe("ws-1");
+        expect(init.headers["Idempotency-Key"]).toBeUndefined();
+      }
+    });
+
+    it("should throw HoulaAbortError when the signal aborts the request", async () => {
+      hangUntilAborted();
+      const controller = new AbortController();
+      const reason = new Error("user navigated away");
+
+      const promise = client.getLinks(1, 20, { signal: controller.signal }).catch((e) => e);
+      controller.abort(reason);
+      const error = await promise;
+
+      expect(error).toBeInstanceOf(HoulaAbortError);
+      expect(error).not.toBeInstanceOf(HoulaTimeoutError);
+      expect(error.cause).toBe(reason);
+      expect(error.url).toBe("https://api.test.com/api/link?page=1&limit=20");
+    });
+
+    it("should not send a request when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(client.getTags({ signal: controller.signal })).rejects.toBeInstanceOf(HoulaAbortError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should not retry aborted requests and cancel pending retries", async () => {
+      vi.useFakeTimers();
+      const retryClient = new HoulaClient({
+        ...mockConfig,
+        retry: { maxAttempts: 3, baseDelayMs: 1000, jitter: false },
+      });
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 503,
+        statusText: "Service Unavailable",
+        json: () => Promise.resolve({ message: "Down" }),
+      });
+      const controller = new AbortController();
+
+      const promise = retryClient.getTags({ signal: controller.signal }).catch((e) => e);
+      await vi.advanceTimersByTimeAsync(0);
+      controller.abort();
+      const error = await promise;
+      vi.useRealTimers();
+
+      expect(error).toBeInstanceOf(HoulaAbortError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop waiting for a rate-limit token when aborted", async () => {
+      vi.useFakeTimers();
+      const limited = new HoulaClient({ ...mockConfig, rateLimit: { requestsPerMinute: 1 } });
+      respond([]);
+      await limited.getTags();
+      const controller = new AbortController();
+
+      const promise = limited.getTags({ signal: controller.signal }).catch((e) => e);
+      await vi.advanceTimersByTimeAsync(0);
+      controller.abort();
+      const error = await promise;
+      vi.useRealTimers();
+
+      expect(error).toBeInstanceOf(HoulaAbortError);
+      expect(error.url).toBe("https://api.test.com/api/manager/tag");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(limited.getRateLimitStatus().queued).toBe(0);
+    });
+
+    it("should apply a per-call timeout", async () => {
+      vi.useFakeTimers();
+      hangUntilAborted();
+
+      const promise = client.getTags({ timeout: 100 }).catch((e) => e);
+      await vi.advanceTimersByTimeAsync(100);
+      const error = await promise;
+      vi.useRealTimers();
+
+      expect(error).toBeInstanceOf(HoulaTimeoutError);
+      expect(error.timeoutMs).toBe(100);
+      expect(error.message).toBe("Request timed out after 100ms");
+    });
+
+    const slowBody = (delay: number) =>
+      mockFetch.mockImplementation((_url: string, init: RequestInit) =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            new Promise((resolve, reject) => {
+              const timer = setTimeout(() => resolve([]), delay);
+              init.signal!.addEventListener("abort", () => {
+                clearTimeout(timer);
+                reject(new DOMException("Aborted", "AbortError"));
+              });
+            }),
+        }),
+      );
+
+    it("should abort while the response body is being read", async () => {
+      vi.useFakeTimers();
+      slowBody(2000);
+      const controller = new AbortController();
+
+      const promise = client.getTags({ signal: controller.signal }).catch((e) => e);
+      await vi.advanceTimersByTimeAsync(300);
+      controller.abort();
+      const error = await promise;
+
+      expect(error).toBeInstanceOf(HoulaAbortError);
+    });
+
+    it("should apply the timeout to the response body", async () => {
+      vi.useFakeTimers();
+      slowBody(2000);
+
+      const promise = client.getTags({ timeout: 300 }).catch((e) => e);
+      await vi.advanceTimersByTimeAsync(300);
+      const error = await promise;
+
+      expect(error).toBeInstanceOf(HoulaTimeoutError);
+      expect(error.timeoutMs).toBe(300);
+    });
+
+    it("should stop polling a PayLink order when aborted", async () => {
+      respond({ status: PayLinkOrderStatus.PENDING });
+      const controller = new AbortController();
+
+      const promise = client.waitForPayLinkOrder("order-1", { interval: 60000 }, { signal: controller.signal });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      controller.abort();
+
+      await expect(promise).rejects.toBeInstanceOf(HoulaAbortError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { Readable } from "stream";
+import { csvRowsToLinks, parseCsv, readCsvInput } from "../csv";
+
+describe("parseCsv", () => {
+  it("should parse quoted fields with escaped quotes, delimiters and line breaks", () => {
+    const rows = parseCsv('url,title\r\nhttps://a.com,"Say ""hi"", then\nleave"\r\nhttps://b.com,B\r\n');
+
+    expect(rows).toEqual([
+      ["url", "title"],
+      ["https://a.com", 'Say "hi", then\nleave'],
+      ["https://b.com", "B"],
+    ]);
+  });
+
+  it("should strip a UTF-8 BOM", () => {
+    expect(parseCsv("\uFEFFurl\nhttps://a.com")[0]).toEqual(["url"]);
+  });
+
+  it("should detect semicolon and tab delimiters", () => {
+    expect(parseCsv("url;title\nhttps://a.com;A")[1]).toEqual(["https://a.com", "A"]);
+    expect(parseCsv("url\ttitle\nhttps://a.com\tA")[1]).toEqual(["https://a.com", "A"]);
+  });
+
+  it("should ignore quoted text when detecting the delimiter", () => {
+    expect(parseCsv('"Name, full";url\n"a, b";https://x.com')).toEqual([
+      ["Name, full", "url"],
+      ["a, b", "https://x.com"],
+    ]);
+  });
+
+  it("should use a custom delimiter", () => {
+    expect(parseCsv("url|title\nhttps://a.com,x|A", "|")[1]).toEqual(["https://a.com,x", "A"]);
+  });
+});
+
+describe("readCsvInput", () => {
+  it("should read Web streams and Node.js readables", async () => {
+    const bytes = new TextEncoder().encode("url\nhttps://é.com");
+    const web = new ReadableStream<Uint8Array>({
+      start(controller) {
+        // Split inside the multi-byte "é"
+        controller.enqueue(bytes.slice(0, 13));
+        controller.enqueue(bytes.slice(13));
+        controller.close();
+      },
+    });
+
+    expect(await readCsvInput(web)).toBe("url\nhttps://é.com");
+    expect(await readCsvInput(Readable.from([Buffer.from("url\n"), Buffer.from("https://a.com")]))).toBe(
+      "url\nhttps://a.com",
+    );
+  });
+});
+
+describe("csvRowsToLinks", () => {
+  it("should map columns by header name and aliases", () => {
+    const result = csvRowsToLinks(parseCsv("Long_URL,Title,utm_source,max_hits\nhttps://a.com,A,newsletter,10"));
+
+    expect(result.links).toEqual([
+      { row: 2, input: { url: "https://a.com", title: "A", utm_source: "newsletter", utm: true, maxHits: 10 } },
+    ]);
+  });
+
+  it("should use a custom column mapping", () => {
+    const result = csvRowsToLinks(parseCsv("Destination Page,Name\nhttps://a.com,A"), {
+      columnMapping: { url: "Destination Page", title: "Name" },
+    });
+
+    expect(result.links[0].input).toEqual({ url: "https://a.com", title: "A" });
+  });
+
+  it("should report invalid rows with spreadsheet row numbers", () => {
+    const result = csvRowsToLinks(
+      parseCsv("url,maxHits,expires_at\nhttps://a.com,,\nnot a url,,\n,,\nhttps://b.com,0,\nhttps://c.com,,tomorrow"),
+    );
+
+    expect(result.totalRows).toBe(4);
+    expect(result.links.map((l) => l.row)).toEqual([2]);
+    expect(result.errors).toEqual([
+      { row: 3, message: "Invalid URL: not a url" },
+      { row: 5, message: "Invalid maxHits: 0" },
+      { row: 6, message: "Invalid expiration date: tomorrow" },
+    ]);
+  });
+
+  it("should skip duplicate URLs unless disabled", () => {
+    const rows = parseCsv("url\nhttps://a.com\nhttps://a.com");
+
+    expect(csvRowsToLinks(rows).skipped).toEqual([3]);
+    expect(csvRowsToLinks(rows, { skipFileDuplicates: false }).links).toHaveLength(2);
+  });
+
+  it("should only keep keys when preserveCustomSlugs is set", () => {
+    const rows = parseCsv("url,slug\nhttps://a.com,promo\nhttps://b.com,bad slug");
+
+    expect(csvRowsToLinks(rows).links.map((l) => l.input.key)).toEqual([undefined, undefined]);
+    const preserved = csvRowsToLinks(rows, { preserveCustomSlugs: true });
+    expect(preserved.links[0].input.key).toBe("promo");
+    expect(preserved.errors).toEqual([{ row: 3, message: "Invalid key: bad slug" }]);
+  });
+
+  it("should add tagIds to every link", () => {
+    const result = csvRowsToLinks(parseCsv("url\nhttps://a.com"), { tagIds: ["tag-1"] });
+
+    expect(result.links[0].input.tagIds).toEqual(["tag-1"]);
+  });
+
+  it("should throw when there is no URL column", () => {
+    expect(() => csvRowsToLinks(parseCsv("title\nA"))).toThrow('CSV has no "url" column');
+  });
+});
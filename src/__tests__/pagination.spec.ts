@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from "vitest";
+import { paginate } from "../pagination";
+import { PaginatedResponse } from "../types";
+
+const makePage = (page: number, pageCount: number, perPage = 2): PaginatedResponse<number> => ({
+  data: Array.from({ length: perPage }, (_, i) => (page - 1) * perPage + i),
+  total: pageCount * perPage,
+  page,
+  pageCount,
+  count: perPage,
+});
+
+describe("paginate", () => {
+  it("should yield every item across pages in order", async () => {
+    const fetchPage = vi.fn((page: number) => Promise.resolve(makePage(page, 3)));
+    const items: number[] = [];
+
+    for await (const item of paginate(fetchPage)) {
+      items.push(item);
+    }
+
+    expect(items).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  it("should expose page-level iteration", async () => {
+    const fetchPage = vi.fn((page: number) => Promise.resolve(makePage(page, 2)));
+    const pages: number[] = [];
+
+    for await (const page of paginate(fetchPage).pages()) {
+      pages.push(page.page);
+    }
+
+    expect(pages).toEqual([1, 2]);
+  });
+
+  it("should yield nothing for an empty first page", async () => {
+    const fetchPage = vi.fn(() =>
+      Promise.resolve({ data: [], total: 0, page: 1, pageCount: 0, count: 0 } as PaginatedResponse<number>)
+    );
+    const items: number[] = [];
+
+    for await (const item of paginate(fetchPage)) items.push(item);
+
+    expect(items).toEqual([]);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop fetching on early break", async () => {
+    const fetchPage = vi.fn((page: number) => Promise.resolve(makePage(page, 10)));
+
+    for await (const item of paginate(fetchPage)) {
+      if (item === 2) break;
+    }
+
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it("should prefetch up to concurrency pages", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const fetchPage = vi.fn(async (page: number) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return makePage(page, 6);
+    });
+    const pages: number[] = [];
+
+    for await (const page of paginate(fetchPage, { concurrency: 3 }).pages()) {
+      pages.push(page.page);
+    }
+
+    expect(pages).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(maxActive).toBe(3);
+  });
+
+  it("should start from startPage", async () => {
+    const fetchPage = vi.fn((page: number) => Promise.resolve(makePage(page, 3)));
+    const pages: number[] = [];
+
+    for await (const page of paginate(fetchPage, { startPage: 2 }).pages()) pages.push(page.page);
+
+    expect(pages).toEqual([2, 3]);
+  });
+
+  it("should propagate fetch errors", async () => {
+    const fetchPage = vi.fn((page: number) =>
+      page === 2 ? Promise.reject(new Error("boom")) : Promise.resolve(makePage(page, 3))
+    );
+
+    const consume = async () => {
+      for await (const _ of paginate(fetchPage)) {
+        // drain
+      }
+    };
+
+    await expect(consume()).rejects.toThrow("boom");
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { buildUsageReport } from "../plan-limits";
+import { PlanLimits, WorkspacePlan } from "../types";
+
+const limits: PlanLimits = {
+  maxLinks: null,
+  maxCustomDomains: 1,
+  maxMembers: 5,
+  maxApiKeys: 3,
+  maxBioPages: 3,
+  maxTags: 100,
+  statsRetentionDays: 365,
+  apiRateLimit: 120,
+  domainFinderDailyLimit: null,
+  canExportCsv: true,
+  showBranding: false,
+};
+
+describe("buildUsageReport", () => {
+  it("should compute used, limit and remaining per resource", () => {
+    const report = buildUsageReport(
+      { plan: WorkspacePlan.PRO, limits },
+      { links: 5000, tags: 42, domains: 1, bioPages: 5, webhooks: 2 },
+    );
+
+    expect(report).toEqual({
+      plan: WorkspacePlan.PRO,
+      resources: {
+        links: { used: 5000, limit: null, remaining: null },
+        tags: { used: 42, limit: 100, remaining: 58 },
+        domains: { used: 1, limit: 1, remaining: 0 },
+        bioPages: { used: 5, limit: 3, remaining: 0 },
+        apiKeys: { used: 0, limit: 3, remaining: 3 },
+      },
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, it, expect, vi } from "vitest";
+import { EventEmitter } from "events";
+import { HoulaClient } from "../client";
+import {
+  PrintAgent,
+  PrintAgentOptions,
+  PrintDocument,
+  decodePrintJob,
+  directoryPrintSink,
+  tcpPrintSink,
+} from "../print-agent";
+import { PrintJob, PrintJobStatus, PrintJobType, PrintLabelFormat } from "../types";
+
+const toBase64 = (text: string) => Buffer.from(text).toString("base64");
+
+function makeJob(overrides: Partial<PrintJob> = {}): PrintJob {
+  return {
+    id: "job-1",
+    workspaceId: "ws-1",
+    orderId: "order-1",
+    type: PrintJobType.SHIPPING_LABEL,
+    status: PrintJobStatus.PENDING,
+    format: PrintLabelFormat.ZPL,
+    payload: toBase64("^XA^FDHello^FS^XZ"),
+    attempts: 0,
+    lastError: null,
+    printedAt: null,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function mockClient(jobs: PrintJob[] = []) {
+  return {
+    listPrintJobs: vi.fn().mockResolvedValue(jobs),
+    ackPrintJob: vi.fn((id: string, data: { status: PrintJobStatus }) => Promise.resolve(makeJob({ id, ...data }))),
+    markPrintJobPrinted: vi.fn((id: string) => Promise.resolve(makeJob({ id, status: PrintJobStatus.PRINTED }))),
+  };
+}
+
+function createAgent(client: ReturnType<typeof mockClient>, options: Partial<PrintAgentOptions>) {
+  return new PrintAgent(client as unknown as HoulaClient, { sink: vi.fn().mockResolvedValue(undefined), ...options });
+}
+
+describe("decodePrintJob", () => {
+  it("should decode the base64 payload with the format's content type", () => {
+    const document = decodePrintJob(makeJob());
+
+    expect(new TextDecoder().decode(document.data)).toBe("^XA^FDHello^FS^XZ");
+    expect(document).toMatchObject({ format: "zpl", contentType: "application/vnd.zebra-zpl", extension: "zpl" });
+  });
+
+  it("should keep binary ESC/POS bytes intact", () => {
+    const bytes = [0x1b, 0x40, 0xff, 0x00, 0x0a];
+    const document = decodePrintJob(
+      makeJob({ format: PrintLabelFormat.ESCPOS, payload: Buffer.from(bytes).toString("base64") }),
+    );
+
+    expect([...document.data]).toEqual(bytes);
+    expect(document.extension).toBe("bin");
+  });
+
+  it("should reject missing, invalid and mislabeled payloads", () => {
+    expect(() => decodePrintJob(makeJob({ payload: null }))).toThrow("print job job-1 has no payload");
+    expect(() => decodePrintJob(makeJob({ payload: "not base64!" }))).toThrow("invalid base64 payload");
+    expect(() => decodePrintJob(makeJob({ format: PrintLabelFormat.PDF }))).toThrow("payload is not a PDF");
+    expect(decodePrintJob(makeJob({ format: PrintLabelFormat.PDF, payload: toBase64("%PDF-1.7") })).contentType).toBe(
+      "application/pdf",
+    );
+  });
+});
+
+describe("PrintAgent.processJob", () => {
+  it("should report SENT, send to the sink, then mark PRINTED", async () => {
+    const client = mockClient();
+    const sink = vi.fn().mockResolvedValue(undefined);
+    const onJob = vi.fn();
+
+    const result = await createAgent(client, { sink, onJob }).processJob(makeJob());
+
+    expect(client.ackPrintJob).toHaveBeenCalledWith("job-1", { status: PrintJobStatus.SENT }, { signal: undefined });
+    expect(new TextDecoder().decode(sink.mock.calls[0][0].data)).toBe("^XA^FDHello^FS^XZ");
+    expect(client.markPrintJobPrinted).toHaveBeenCalledWith("job-1", { signal: undefined });
+    expect(result.status).toBe(PrintJobStatus.PRINTED);
+    expect(onJob).toHaveBeenCalledWith(result);
+  });
+
+  it("should retry the sink with exponential backoff, then report FAILED", async () => {
+    vi.useFakeTimers();
+    const client = mockClient();
+    const sink = vi.fn().mockRejectedValue(new Error("Printer offline"));
+    const onError = vi.fn();
+
+    const promise = createAgent(client, { sink, onError, maxAttempts: 3, retryDelay: 100 }).processJob(makeJob());
+    await vi.advanceTimersByTimeAsync(99);
+    expect(sink).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sink).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+    const result = await promise;
+
+    expect(sink).toHaveBeenCalledTimes(3);
+    expect(onError).toHaveBeenCalledTimes(3);
+    expect(client.ackPrintJob).toHaveBeenLastCalledWith("job-1", {
+      status: PrintJobStatus.FAILED,
+      error: "Printer offline",
+    });
+    expect(client.markPrintJobPrinted).not.toHaveBeenCalled();
+    expect(result.status).toBe(PrintJobStatus.FAILED);
+    vi.useRealTimers();
+  });
+
+  it("should succeed when a retry goes through", async () => {
+    const client = mockClient();
+    const sink = vi.fn().mockRejectedValueOnce(new Error("Busy")).mockResolvedValue(undefined);
+
+    const result = await createAgent(client, { sink, retryDelay: 0 }).processJob(makeJob());
+
+    expect(sink).toHaveBeenCalledTimes(2);
+    expect(result.status).toBe(PrintJobStatus.PRINTED);
+  });
+
+  it("should retry the printed report without printing again, then report the job", async () => {
+    const client = mockClient();
+    const failure = new Error("503");
+    client.markPrintJobPrinted.mockRejectedValue(failure);
+    const sink = vi.fn().mockResolvedValue(undefined);
+    const onError = vi.fn();
+
+    const result = await createAgent(client, { sink, onError, retryDelay: 0 }).processJob(makeJob());
+
+    expect(sink).toHaveBeenCalledTimes(1);
+    expect(client.markPrintJobPrinted).toHaveBeenCalledTimes(3);
+    expect(onError).toHaveBeenCalledWith(failure, expect.objectContaining({ id: "job-1", status: PrintJobStatus.SENT }));
+    expect(result.status).toBe(PrintJobStatus.SENT);
+  });
+
+  it("should report the job failed when stopped between sink attempts", async () => {
+    const client = mockClient();
+    const sink = vi.fn().mockRejectedValue(new Error("Printer offline"));
+    const controller = new AbortController();
+
+    const promise = createAgent(client, { sink, retryDelay: 60000 }).processJob(makeJob(), controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort();
+    const result = await promise;
+
+    expect(sink).toHaveBeenCalledTimes(1);
+    expect(client.ackPrintJob).toHaveBeenCalledWith("job-1", { status: PrintJobStatus.SENT }, { signal: controller.signal });
+    expect(client.ackPrintJob).toHaveBeenLastCalledWith("job-1", {
+      status: PrintJobStatus.FAILED,
+      error: "Hou.la SDK: print agent stopped",
+    });
+    expect(result.status).toBe(PrintJobStatus.FAILED);
+  });
+
+  it("should fail undecodable jobs without reaching the sink", async () => {
+    const client = mockClient();
+    const sink = vi.fn();
+
+    await createAgent(client, { sink }).processJob(makeJob({ payload: null }));
+
+    expect(sink).not.toHaveBeenCalled();
+    expect(client.ackPrintJob).toHaveBeenCalledTimes(1);
+    expect(client.ackPrintJob).toHaveBeenCalledWith("job-1", {
+      status: PrintJobStatus.FAILED,
+      error: "Hou.la SDK: print job job-1 has no payload",
+    });
+  });
+});
+
+describe("PrintAgent polling", () => {
+  it("should only process pending jobs of the configured types", async () => {
+    const client = mockClient([makeJob({ id: "a" }), makeJob({ id: "b", type: PrintJobType.INVOICE })]);
+    const sink = vi.fn().mockResolvedValue(undefined);
+
+    const processed = await createAgent(client, { sink, types: [PrintJobType.SHIPPING_LABEL] }).poll();
+
+    expect(client.listPrintJobs).toHaveBeenCalledWith({ status: PrintJobStatus.PENDING }, { signal: undefined });
+    expect(processed.map((job) => job.id)).toEqual(["a"]);
+    expect(sink).toHaveBeenCalledTimes(1);
+  });
+
+  it("should poll until stopped and back off while the API fails", async () => {
+    vi.useFakeTimers();
+    const client = mockClient();
+    client.listPrintJobs.mockRejectedValueOnce(new Error("503")).mockRejectedValueOnce(new Error("503"));
+    const onError = vi.fn();
+    const agent = createAgent(client, { pollInterval: 1000, onError });
+
+    const running = agent.start();
+    expect(agent.running).toBe(true);
+    await expect(agent.start()).rejects.toThrow("already running");
+    await vi.advanceTimersByTimeAsync(2000); // 1st failure: wait 2s
+    expect(client.listPrintJobs).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(4000); // 2nd failure: wait 4s
+    expect(client.listPrintJobs).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(1000); // success: back to 1s
+    expect(client.listPrintJobs).toHaveBeenCalledTimes(4);
+
+    agent.stop();
+    await running;
+    expect(agent.running).toBe(false);
+    expect(onError).toHaveBeenCalledTimes(2);
+    vi.useRealTimers();
+  });
+
+  it("should stop when the signal aborts", async () => {
+    const client = mockClient();
+    const controller = new AbortController();
+    const running = createAgent(client, { signal: controller.signal, pollInterval: 60000 }).start();
+
+    controller.abort();
+    await running;
+
+    expect(client.listPrintJobs).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("sinks", () => {
+  const document: PrintDocument = decodePrintJob(makeJob());
+
+  it("should write raw bytes to the printer port", async () => {
+    const socket = Object.assign(new EventEmitter(), {
+      setTimeout: vi.fn(),
+      end: vi.fn((_data: Uint8Array, callback: () => void) => callback()),
+      destroy: vi.fn(),
+    });
+    const net = { connect: vi.fn().mockReturnValue(socket) };
+
+    await tcpPrintSink(net, { host: "192.168.1.50" })(document);
+
+    expect(net.connect).toHaveBeenCalledWith(9100, "192.168.1.50");
+    expect(socket.end).toHaveBeenCalledWith(document.data, expect.any(Function));
+  });
+
+  it("should reject on socket errors", async () => {
+    const socket = Object.assign(new EventEmitter(), {
+      setTimeout: vi.fn(),
+      end: vi.fn(() => socket.emit("error", new Error("ECONNREFUSED"))),
+      destroy: vi.fn(),
+    });
+
+    await expect(tcpPrintSink({ connect: () => socket }, { host: "printer", port: 9101 })(document)).rejects.toThrow(
+      "ECONNREFUSED",
+    );
+  });
+
+  it("should write one file per job in the directory", async () => {
+    const fs = { writeFile: vi.fn().mockResolvedValue(undefined) };
+
+    await directoryPrintSink(fs, "/var/spool/labels/")(document);
+
+    expect(fs.writeFile).toHaveBeenCalledWith("/var/spool/labels/shipping_label-job-1.zpl", document.data);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { TokenBucket, parseRateLimitHeaders } from "../rate-limiter";
+
+describe("TokenBucket", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should allow a burst up to capacity without waiting", async () => {
+    const bucket = new TokenBucket(60, 3);
+
+    await bucket.acquire();
+    await bucket.acquire();
+    await bucket.acquire();
+
+    expect(bucket.remaining).toBe(0);
+  });
+
+  it("should queue callers until a token refills", async () => {
+    const bucket = new TokenBucket(60, 1);
+    await bucket.acquire();
+
+    let resolved = false;
+    const pending = bucket.acquire().then(() => {
+      resolved = true;
+    });
+    expect(bucket.queued).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(resolved).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await pending;
+    expect(resolved).toBe(true);
+    expect(bucket.queued).toBe(0);
+  });
+
+  it("should serve callers in order", async () => {
+    const bucket = new TokenBucket(120, 1);
+    const order: number[] = [];
+
+    const all = Promise.all([1, 2, 3].map((n) => bucket.acquire().then(() => order.push(n))));
+    await vi.advanceTimersByTimeAsync(1000);
+    await all;
+
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it("should leave the queue without consuming a token when aborted", async () => {
+    const bucket = new TokenBucket(60, 1);
+    await bucket.acquire();
+    const controller = new AbortController();
+    const reason = new Error("cancelled");
+
+    const aborted = bucket.acquire(controller.signal).catch((e) => e);
+    let nextResolved = false;
+    const next = bucket.acquire().then(() => {
+      nextResolved = true;
+    });
+    controller.abort(reason);
+
+    expect(await aborted).toBe(reason);
+    expect(bucket.queued).toBe(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    await next;
+    expect(nextResolved).toBe(true);
+    expect(bucket.remaining).toBe(0);
+    expect(bucket.queued).toBe(0);
+  });
+
+  it("should never exceed the server-reported remaining budget", () => {
+    const bucket = new TokenBucket(100);
+
+    bucket.sync(2);
+
+    expect(bucket.remaining).toBe(2);
+  });
+
+  it("should apply a new rate", () => {
+    const bucket = new TokenBucket(100);
+
+    bucket.setRate(10);
+
+    expect(bucket.rate).toBe(10);
+    expect(bucket.remaining).toBe(10);
+  });
+});
+
+describe("parseRateLimitHeaders", () => {
+  it("should read X-RateLimit-* headers", () => {
+    const headers = new Headers({
+      "X-RateLimit-Limit": "100",
+      "X-RateLimit-Remaining": "42",
+      "X-RateLimit-Reset": "30",
+    });
+
+    expect(parseRateLimitHeaders(headers)).toEqual({ limit: 100, remaining: 42, reset: 30 });
+  });
+
+  it("should return undefined when no header is present", () => {
+    expect(parseRateLimitHeaders(new Headers())).toBeUndefined();
+    expect(parseRateLimitHeaders(undefined)).toBeUndefined();
+  });
+});
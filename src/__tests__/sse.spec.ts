@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { parseServerSentEvents, ServerSentEvent } from "../sse";
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = [];
+  for await (const event of parseServerSentEvents(stream)) events.push(event);
+  return events;
+}
+
+describe("parseServerSentEvents", () => {
+  it("should parse messages separated by blank lines", async () => {
+    const events = await collect(streamOf('data: {"a":1}\n\n', 'event: progress\ndata: {"a":2}\n\n'));
+
+    expect(events).toEqual([
+      { event: "message", data: '{"a":1}', id: undefined, retry: undefined },
+      { event: "progress", data: '{"a":2}', id: undefined, retry: undefined },
+    ]);
+  });
+
+  it("should join multi-line data and ignore comments", async () => {
+    const events = await collect(streamOf(": keep-alive\n\ndata: line 1\ndata: line 2\n\n"));
+
+    expect(events).toHaveLength(1);
+    expect(events[0].data).toBe("line 1\nline 2");
+  });
+
+  it("should handle chunks split mid-line and CRLF line endings", async () => {
+    const events = await collect(streamOf("id: 4\r", "\ndata: hel", "lo\r\n\r\n"));
+
+    expect(events).toEqual([{ event: "message", data: "hello", id: "4", retry: undefined }]);
+  });
+
+  it("should keep the last id and retry for following events", async () => {
+    const events = await collect(streamOf("retry: 5000\n\nid: 1\ndata: a\n\ndata: b\n\n"));
+
+    expect(events.map((e) => [e.data, e.id, e.retry])).toEqual([
+      ["a", "1", 5000],
+      ["b", "1", 5000],
+    ]);
+  });
+
+  it("should drop an unterminated event at the end of the stream", async () => {
+    const events = await collect(streamOf("data: complete\n\ndata: partial"));
+
+    expect(events.map((e) => e.data)).toEqual(["complete"]);
+  });
+
+  it("should end the stream when the signal aborts", async () => {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode("data: first\n\n"));
+      },
+    });
+    const controller = new AbortController();
+    const events: string[] = [];
+
+    for await (const event of parseServerSentEvents(stream, controller.signal)) {
+      events.push(event.data);
+      controller.abort();
+    }
+
+    expect(events).toEqual(["first"]);
+  });
+});
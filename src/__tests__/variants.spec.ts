@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { buildVariantMatrix, expandVariantOptions, reconcileVariants } from "../variants";
+import { ShopProductVariant } from "../types";
+
+const size = { name: "Size", values: ["S", "M"] };
+const color = { name: "Color", values: ["Red", "Navy Blue"] };
+
+let nextId = 0;
+const generateId = () => `new-${++nextId}`;
+
+describe("expandVariantOptions", () => {
+  it("should build the Cartesian product in option order", () => {
+    expect(expandVariantOptions([size, color])).toEqual([
+      { Size: "S", Color: "Red" },
+      { Size: "S", Color: "Navy Blue" },
+      { Size: "M", Color: "Red" },
+      { Size: "M", Color: "Navy Blue" },
+    ]);
+  });
+
+  it("should return no combinations without options", () => {
+    expect(expandVariantOptions([])).toEqual([]);
+  });
+});
+
+describe("buildVariantMatrix", () => {
+  it("should apply fixed and computed template values", () => {
+    nextId = 0;
+    const variants = buildVariantMatrix([size, color], {
+      priceCents: (o) => (o.Size === "M" ? 2700 : 2500),
+      stockQuantity: 5,
+      sku: "TS-{Size}-{Color}-{index}",
+      generateId,
+    });
+
+    expect(variants).toHaveLength(4);
+    expect(variants[1]).toEqual({
+      id: "new-2",
+      options: { Size: "S", Color: "Navy Blue" },
+      priceCents: 2500,
+      stockQuantity: 5,
+      sku: "TS-S-Navy-Blue-2",
+      isActive: true,
+    });
+    expect(variants[3].priceCents).toBe(2700);
+  });
+
+  it("should generate UUIDs by default", () => {
+    const [variant] = buildVariantMatrix([{ name: "Size", values: ["S"] }], { priceCents: 100 });
+
+    expect(variant.id).toMatch(/^[0-9a-f-]{36}$/);
+  });
+});
+
+describe("reconcileVariants", () => {
+  const existing: ShopProductVariant[] = [
+    { id: "v-s", options: { Size: "S" }, priceCents: 2400, stockQuantity: 3, externalVariantId: "ext-s", isActive: true },
+    { id: "v-m", options: { Size: "M" }, priceCents: 2600, isActive: true },
+    { id: "v-l", options: { Size: "L" }, priceCents: 2800, isActive: true },
+  ];
+
+  it("should keep exact matches and report added and removed variants", () => {
+    nextId = 0;
+    const diff = reconcileVariants(existing, [{ name: "Size", values: ["S", "M", "XL"] }], {
+      priceCents: 3000,
+      generateId,
+    });
+
+    expect(diff.kept.map((v) => v.id)).toEqual(["v-s", "v-m"]);
+    expect(diff.added).toEqual([{ id: "new-1", options: { Size: "XL" }, priceCents: 3000, isActive: true }]);
+    expect(diff.removed.map((v) => v.id)).toEqual(["v-l"]);
+    expect(diff.variants.map((v) => v.id)).toEqual(["v-s", "v-m", "new-1"]);
+  });
+
+  it("should carry existing variants over when an option axis is added", () => {
+    nextId = 0;
+    const diff = reconcileVariants(existing.slice(0, 2), [size, color], { priceCents: 3000, generateId });
+
+    expect(diff.variants.map((v) => v.id)).toEqual(["v-s", "new-1", "v-m", "new-2"]);
+    expect(diff.variants[0]).toEqual({
+      id: "v-s",
+      options: { Size: "S", Color: "Red" },
+      priceCents: 2400,
+      stockQuantity: 3,
+      externalVariantId: "ext-s",
+      isActive: true,
+    });
+    expect(diff.removed).toEqual([]);
+  });
+
+  it("should carry existing variants over when an option axis is removed", () => {
+    const withColor = buildVariantMatrix([size, color], { priceCents: 2500, generateId });
+
+    const diff = reconcileVariants(withColor, [size], { priceCents: 3000, generateId });
+
+    expect(diff.kept.map((v) => v.id)).toEqual([withColor[0].id, withColor[2].id]);
+    expect(diff.kept[0].options).toEqual({ Size: "S" });
+    expect(diff.removed.map((v) => v.id)).toEqual([withColor[1].id, withColor[3].id]);
+    expect(diff.added).toEqual([]);
+  });
+
+  it("should not create an empty-options variant when every option is removed", () => {
+    const diff = reconcileVariants(existing, [], { priceCents: 3000, generateId });
+
+    expect(diff.variants).toEqual([]);
+    expect(diff.added).toEqual([]);
+    expect(diff.removed.map((v) => v.id)).toEqual(["v-s", "v-m", "v-l"]);
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect, vi } from "vitest";
+import { createHmac } from "crypto";
+import { Readable } from "stream";
+import { houlaWebhookHandler, houlaWebhookMiddleware, handleWebhookRequest } from "../webhook-adapters";
+import { WebhookDispatcher } from "../webhooks";
+
+const secret = "whsec_test_secret";
+const body = JSON.stringify({
+  id: "evt_1",
+  event: "link.clicked",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  data: { linkId: "abc" },
+});
+const sign = (payload: string) => createHmac("sha256", secret).update(payload).digest("hex");
+
+function fetchRequest(payload: string, signature = sign(payload), method = "POST") {
+  return new Request("https://example.com/webhooks/houla", {
+    method,
+    headers: { "Content-Type": "application/json", "X-Houla-Signature": signature },
+    body: method === "POST" ? payload : undefined,
+  });
+}
+
+function nodeResponse() {
+  const res = { statusCode: 0, headers: {} as Record<string, string>, body: "" };
+  return Object.assign(res, {
+    setHeader: (name: string, value: string) => (res.headers[name] = value),
+    end: (chunk?: string) => (res.body = chunk ?? ""),
+  });
+}
+
+describe("handleWebhookRequest", () => {
+  it("should dispatch events and answer 200", async () => {
+    const handler = vi.fn();
+    const result = await handleWebhookRequest(body, { "x-houla-signature": sign(body) }, {
+      secret,
+      handlers: { "link.clicked": handler },
+    });
+
+    expect(result).toEqual({ status: 200, body: { received: true, events: 1 } });
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: "evt_1", data: { linkId: "abc" } }));
+  });
+
+  it("should answer 401 on an invalid signature", async () => {
+    const onError = vi.fn();
+    const result = await handleWebhookRequest(body, { "x-houla-signature": "deadbeef" }, {
+      secret,
+      handlers: {},
+      onError,
+    });
+
+    expect(result.status).toBe(401);
+    expect(onError).toHaveBeenCalled();
+  });
+
+  it("should answer 400 on a malformed payload", async () => {
+    const payload = JSON.stringify({ hello: "world" });
+    const result = await handleWebhookRequest(payload, { "x-houla-signature": sign(payload) }, { secret, handlers: {} });
+
+    expect(result.status).toBe(400);
+  });
+
+  it("should answer 500 when a handler throws", async () => {
+    const dispatcher = new WebhookDispatcher().onAny(() => {
+      throw new Error("boom");
+    });
+    const result = await handleWebhookRequest(body, { "x-houla-signature": sign(body) }, {
+      secret,
+      handlers: dispatcher,
+    });
+
+    expect(result).toEqual({ status: 500, body: { error: "Webhook handler failed" } });
+  });
+
+  it("should answer 500 and report unexpected verification errors", async () => {
+    vi.stubGlobal("crypto", {});
+    const onError = vi.fn();
+    try {
+      const result = await handleWebhookRequest(body, { "x-houla-signature": sign(body) }, {
+        secret,
+        handlers: {},
+        onError,
+      });
+
+      expect(result).toEqual({ status: 500, body: { error: "Webhook verification failed" } });
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining("Web Crypto") }));
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe("houlaWebhookHandler", () => {
+  it("should verify and dispatch a Fetch API request", async () => {
+    const handler = vi.fn();
+    const handle = houlaWebhookHandler({ secret, handlers: { "link.clicked": handler } });
+
+    const response = await handle(fetchRequest(body));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true, events: 1 });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject a bad signature with 401", async () => {
+    const handle = houlaWebhookHandler({ secret, handlers: {} });
+
+    const response = await handle(fetchRequest(body, "deadbeef"));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should reject other methods with 405", async () => {
+    const handle = houlaWebhookHandler({ secret, handlers: {} });
+
+    const response = await handle(fetchRequest(body, sign(body), "GET"));
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get("Allow")).toBe("POST");
+  });
+
+  it("should answer 400 and report the error when the body cannot be read", async () => {
+    const onError = vi.fn();
+    const handle = houlaWebhookHandler({ secret, handlers: {}, onError });
+    const request = fetchRequest(body);
+    const failure = new TypeError("Body is unusable");
+    vi.spyOn(request, "arrayBuffer").mockRejectedValue(failure);
+
+    const response = await handle(request);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Could not read request body" });
+    expect(onError).toHaveBeenCalledWith(failure);
+  });
+});
+
+describe("houlaWebhookMiddleware", () => {
+  it("should read the body from the request stream", async () => {
+    const handler = vi.fn();
+    const middleware = houlaWebhookMiddleware({ secret, handlers: { "link.clicked": handler } });
+    const req = Object.assign(Readable.from([Buffer.from(body.slice(0, 10)), Buffer.from(body.slice(10))]), {
+      method: "POST",
+      headers: { "x-houla-signature": sign(body) },
+    });
+    const res = nodeResponse();
+
+    await middleware(req, res);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["Content-Type"]).toBe("application/json");
+    expect(JSON.parse(res.body)).toEqual({ received: true, events: 1 });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should use a raw Buffer body from express.raw()", async () => {
+    const middleware = houlaWebhookMiddleware({ secret, handlers: {} });
+    const res = nodeResponse();
+
+    await middleware({ method: "POST", headers: { "x-houla-signature": sign(body) }, body: Buffer.from(body) }, res);
+
+    expect(res.statusCode).toBe(200);
+  });
+
+  it("should prefer rawBody when the body was already parsed", async () => {
+    const middleware = houlaWebhookMiddleware({ secret, handlers: {} });
+    const res = nodeResponse();
+
+    await middleware(
+      { method: "POST", headers: { "x-houla-signature": sign(body) }, body: JSON.parse(body), rawBody: body },
+      res,
+    );
+
+    expect(res.statusCode).toBe(200);
+  });
+
+  it("should answer 400 when only a parsed body is available", async () => {
+    const middleware = houlaWebhookMiddleware({ secret, handlers: {} });
+    const res = nodeResponse();
+
+    await middleware({ method: "POST", headers: { "x-houla-signature": sign(body) }, body: JSON.parse(body) }, res);
+
+    expect(res.statusCode).toBe(400);
+    expect(JSON.parse(res.body).error).toContain("express.raw");
+  });
+
+  it("should answer 500 instead of rejecting on unexpected errors", async () => {
+    vi.stubGlobal("crypto", {});
+    const onError = vi.fn();
+    const middleware = houlaWebhookMiddleware({ secret, handlers: {}, onError });
+    const res = nodeResponse();
+    try {
+      await middleware({ method: "POST", headers: { "x-houla-signature": sign(body) }, body: Buffer.from(body) }, res);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+
+    expect(res.statusCode).toBe(500);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it("should answer 400 and report the error when the body stream fails", async () => {
+    const onError = vi.fn();
+    const middleware = houlaWebhookMiddleware({ secret, handlers: {}, onError });
+    const failure = new Error("aborted");
+    const stream = new Readable({
+      read() {
+        this.destroy(failure);
+      },
+    });
+    const req = Object.assign(stream, { method: "POST", headers: { "x-houla-signature": sign(body) } });
+    const res = nodeResponse();
+
+    await middleware(req, res);
+
+    expect(res.statusCode).toBe(400);
+    expect(JSON.parse(res.body).error).toBe("Could not read request body");
+    expect(onError).toHaveBeenCalledWith(failure);
+  });
+
+  it("should reject other methods with 405", async () => {
+    const middleware = houlaWebhookMiddleware({ secret, handlers: {} });
+    const res = nodeResponse();
+
+    await middleware({ method: "GET", headers: {} }, res);
+
+    expect(res.statusCode).toBe(405);
+    expect(res.headers.Allow).toBe("POST");
+  });
+});
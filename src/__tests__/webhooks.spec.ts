@@ -0,0 +1,179 @@
+import { describe, it, expect, vi } from "vitest";
+import { createHmac } from "crypto";
+import { verifyWebhookSignature, parseWebhook, WebhookDispatcher } from "../webhooks";
+import { HoulaWebhookError } from "../errors";
+import { WebhookEvent, WebhookEventPayload } from "../types";
+
+const secret = "whsec_test_secret";
+const body = JSON.stringify({ event: "link.clicked", data: { linkId: "abc" } });
+const sign = (payload: string, key = secret) => createHmac("sha256", key).update(payload).digest("hex");
+
+describe("verifyWebhookSignature", () => {
+  it("should accept a valid hex signature", async () => {
+    expect(await verifyWebhookSignature(body, sign(body), secret)).toBe(true);
+  });
+
+  it("should accept a sha256= prefixed signature", async () => {
+    expect(await verifyWebhookSignature(body, `sha256=${sign(body)}`, secret)).toBe(true);
+  });
+
+  it("should accept binary bodies", async () => {
+    const bytes = new TextEncoder().encode(body);
+    expect(await verifyWebhookSignature(bytes, sign(body), secret)).toBe(true);
+    expect(await verifyWebhookSignature(bytes.buffer, sign(body), secret)).toBe(true);
+  });
+
+  it("should reject a tampered body", async () => {
+    expect(await verifyWebhookSignature(body + " ", sign(body), secret)).toBe(false);
+  });
+
+  it("should reject a wrong secret", async () => {
+    expect(await verifyWebhookSignature(body, sign(body, "other"), secret)).toBe(false);
+  });
+
+  it("should reject missing or malformed headers", async () => {
+    expect(await verifyWebhookSignature(body, null, secret)).toBe(false);
+    expect(await verifyWebhookSignature(body, "", secret)).toBe(false);
+    expect(await verifyWebhookSignature(body, "not-hex", secret)).toBe(false);
+  });
+
+  it("should accept any of several secrets during rotation", async () => {
+    const signature = sign(body, "whsec_old");
+    expect(await verifyWebhookSignature(body, signature, ["whsec_new", "whsec_old"])).toBe(true);
+  });
+
+  describe("timestamped signatures", () => {
+    const now = 1_800_000_000_000;
+    const t = now / 1000;
+
+    it("should accept a fresh timestamped signature", async () => {
+      const header = `t=${t},v1=${sign(`${t}.${body}`)}`;
+      expect(await verifyWebhookSignature(body, header, secret, { now })).toBe(true);
+    });
+
+    it("should reject a signature outside the tolerance window", async () => {
+      const old = t - 301;
+      const header = `t=${old},v1=${sign(`${old}.${body}`)}`;
+      expect(await verifyWebhookSignature(body, header, secret, { now })).toBe(false);
+      expect(await verifyWebhookSignature(body, header, secret, { now, toleranceSeconds: 600 })).toBe(true);
+    });
+
+    it("should not accept a timestamped header signed without the timestamp", async () => {
+      const header = `t=${t},v1=${sign(body)}`;
+      expect(await verifyWebhookSignature(body, header, secret, { now })).toBe(false);
+    });
+
+    it("should reject untimestamped signatures when requireTimestamp is set", async () => {
+      expect(await verifyWebhookSignature(body, sign(body), secret, { requireTimestamp: true })).toBe(false);
+    });
+  });
+});
+
+describe("parseWebhook", () => {
+  const clicked = {
+    id: "evt_1",
+    event: WebhookEvent.LINK_CLICKED,
+    createdAt: "2026-10-19T10:00:00Z",
+    data: { linkId: "l1", key: "abc", url: "https://example.com", clickedAt: "2026-10-19T10:00:00Z", country: "FR" },
+  };
+  const visited = {
+    id: "evt_2",
+    event: WebhookEvent.PROFILE_VISITED,
+    createdAt: "2026-10-19T10:00:01Z",
+    data: { bioPageId: "bp1", username: "me", visitedAt: "2026-10-19T10:00:01Z" },
+  };
+
+  it("should verify and return a single event as a list", async () => {
+    const raw = JSON.stringify(clicked);
+
+    const events = await parseWebhook(raw, { "X-Houla-Signature": sign(raw) }, secret);
+
+    expect(events).toEqual([clicked]);
+  });
+
+  it("should flatten batched deliveries", async () => {
+    const raw = JSON.stringify({ events: [clicked, visited], eventCount: 2 });
+
+    const events = await parseWebhook(raw, new Headers({ "x-houla-signature": sign(raw) }), secret);
+
+    expect(events.map((e) => e.event)).toEqual(["link.clicked", "profile.visited"]);
+  });
+
+  it("should read array-valued Node headers", async () => {
+    const raw = JSON.stringify(clicked);
+
+    const events = await parseWebhook(raw, { "x-houla-signature": [sign(raw)] }, secret);
+
+    expect(events).toHaveLength(1);
+  });
+
+  it("should throw HoulaWebhookError on an invalid signature", async () => {
+    const raw = JSON.stringify(clicked);
+
+    const error = await parseWebhook(raw, { "x-houla-signature": sign("other") }, secret).catch((e) => e);
+
+    expect(error).toBeInstanceOf(HoulaWebhookError);
+    expect(error.reason).toBe("invalid_signature");
+  });
+
+  it("should throw HoulaWebhookError on a non-event body", async () => {
+    const raw = JSON.stringify({ hello: "world" });
+
+    const error = await parseWebhook(raw, { "x-houla-signature": sign(raw) }, secret).catch((e) => e);
+
+    expect(error).toBeInstanceOf(HoulaWebhookError);
+    expect(error.reason).toBe("invalid_payload");
+  });
+
+  it("should throw HoulaWebhookError on invalid JSON", async () => {
+    const raw = "{not json";
+
+    await expect(parseWebhook(raw, { "x-houla-signature": sign(raw) }, secret)).rejects.toMatchObject({
+      reason: "invalid_payload",
+    });
+  });
+});
+
+describe("WebhookDispatcher", () => {
+  const event = (name: WebhookEvent, id = "evt") => ({ id, event: name, createdAt: "", data: {} }) as WebhookEventPayload;
+
+  it("should route events to handlers registered with on", async () => {
+    const clicks = vi.fn();
+    const visits = vi.fn();
+    const dispatcher = new WebhookDispatcher()
+      .on(WebhookEvent.LINK_CLICKED, clicks)
+      .on(WebhookEvent.PROFILE_VISITED, visits);
+
+    await dispatcher.dispatch([event(WebhookEvent.LINK_CLICKED), event(WebhookEvent.LINK_CLICKED)]);
+
+    expect(clicks).toHaveBeenCalledTimes(2);
+    expect(visits).not.toHaveBeenCalled();
+  });
+
+  it("should call onAny handlers for every event", async () => {
+    const all = vi.fn();
+    const dispatcher = new WebhookDispatcher().onAny(all);
+
+    await dispatcher.dispatch(event(WebhookEvent.LINK_DELETED));
+
+    expect(all).toHaveBeenCalledWith(expect.objectContaining({ event: "link.deleted" }));
+    expect(dispatcher.handles(WebhookEvent.LINK_EXPIRED)).toBe(true);
+  });
+
+  it("should run handlers sequentially and propagate errors", async () => {
+    const order: string[] = [];
+    const dispatcher = new WebhookDispatcher()
+      .on(WebhookEvent.LINK_CREATED, async (e) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        order.push(e.id);
+      })
+      .on(WebhookEvent.LINK_UPDATED, () => {
+        throw new Error("handler failed");
+      });
+
+    await dispatcher.dispatch([event(WebhookEvent.LINK_CREATED, "a"), event(WebhookEvent.LINK_CREATED, "b")]);
+    expect(order).toEqual(["a", "b"]);
+
+    await expect(dispatcher.dispatch(event(WebhookEvent.LINK_UPDATED))).rejects.toThrow("handler failed");
+  });
+});
@@ -0,0 +1,91 @@
+import { CreateLinkDto, Link, LinkCreatedType } from "./types";
+
+/** Options shared by bulk operations */
+export interface BulkOptions {
+  /** Maximum number of requests in flight (default: 5) */
+  concurrency?: number;
+  /** Called after each item settles */
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/** Options for createLinks */
+export interface CreateLinksOptions extends BulkOptions {
+  /** Creation source sent as X-Source (default: api) */
+  source?: LinkCreatedType;
+  /**
+   * Build an idempotency key per item, making each creation safe to retry
+   * (see the `retry` config option).
+   */
+  idempotencyKey?: (input: CreateLinkDto, index: number) => string;
+}
+
+/** Outcome of one item of createLinks, in input order */
+export type CreateLinkResult =
+  | { ok: true; link: Link }
+  | { ok: false; error: Error; input: CreateLinkDto };
+
+/** Aggregated outcome of a bulk operation on existing links */
+export interface BulkReport<T> {
+  /** Number of IDs processed */
+  total: number;
+  /** Items that were changed, with the API response */
+  succeeded: { id: string; result: T }[];
+  /** Items that failed */
+  failed: { id: string; error: Error }[];
+  /** Items left untouched because no change was needed */
+  skipped: string[];
+}
+
+/**
+ * Run `fn` for every ID and aggregate the outcomes.
+ * `fn` returns null to mark an item as skipped.
+ */
+export async function runBulk<T>(
+  ids: readonly string[],
+  options: BulkOptions,
+  fn: (id: string) => Promise<T | null>,
+): Promise<BulkReport<T>> {
+  const report: BulkReport<T> = { total: ids.length, succeeded: [], failed: [], skipped: [] };
+  let completed = 0;
+  await mapConcurrent(ids, options.concurrency ?? 5, async (id) => {
+    try {
+      const result = await fn(id);
+      if (result === null) report.skipped.push(id);
+      else report.succeeded.push({ id, result });
+    } catch (error) {
+      report.failed.push({ id, error: error as Error });
+    } finally {
+      options.onProgress?.(++completed, ids.length);
+    }
+  });
+  return report;
+}
+
+/**
+ * Run `fn` over `items` with at most `concurrency` calls in flight.
+ * Results keep the input order. The first rejection stops scheduling new items and is rethrown;
+ * calls already in flight are left to settle.
+ */
+export async function mapConcurrent<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let stopped = false;
+  const worker = async () => {
+    while (!stopped && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        stopped = true;
+        throw error;
+      }
+    }
+  };
+  const workers = Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, worker);
+  await Promise.all(workers);
+  return results;
+}
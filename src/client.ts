@@ -1,8 +1,26 @@
-import { HoulaConfig, createConfig } from "./config";
+import { HoulaConfig, RequestOptions, createConfig } from "./config";
+import {
+  createHoulaError,
+  HoulaAbortError,
+  HoulaError,
+  HoulaInvalidTransitionError,
+  HoulaNetworkError,
+  HoulaPlanLimitError,
+  HoulaTimeoutError,
+} from "./errors";
+import { getRetryDelay, isRetryableError, isRetryableRequest, sleep } from "./retry";
+import { RateLimitHeaders, RateLimitStatus, TokenBucket, parseRateLimitHeaders } from "./rate-limiter";
+import { PaginateOptions, PaginatedIterable, paginate } from "./pagination";
+import { parseServerSentEvents } from "./sse";
+import { canTransitionShopOrder } from "./shop-orders";
+import { buildUsageReport } from "./plan-limits";
+import { CsvImportOptions, CsvImportReport, CsvInput, csvRowsToLinks, parseCsv, readCsvInput } from "./csv";
+import { BulkOptions, BulkReport, CreateLinkResult, CreateLinksOptions, mapConcurrent, runBulk } from "./batch";
 import {
   Link,
   CreateLinkDto,
   UpdateLinkDto,
+  ListLinksOptions,
   PaginatedResponse,
   CheckAvailabilityResponse,
   DeleteLinkResponse,
@@ -51,6 +69,20 @@ import {
   InviteMemberDto,
   UpdateMemberRoleDto,
   TransferOwnershipDto,
+  MigrateToWorkspaceDto,
+  MigrationReport,
+  MigrationPreview,
+  UpgradeWorkspaceDto,
+  UpgradeWorkspaceResult,
+  WorkspaceType,
+  PlanInfo,
+  BillingInfo,
+  CreateCheckoutDto,
+  CheckoutResult,
+  PortalResult,
+  WorkspaceStats,
+  PlanLimitedResource,
+  UsageReport,
   Tag,
   CreateTagDto,
   UpdateTagDto,
@@ -59,100 +91,533 @@ import {
   HourlyStat,
   DetailedStatsOptions,
   DetailedStats,
+  PayLink,
+  PayLinkStatus,
+  PayLinkOrder,
+  PayLinkOrderStats,
+  CreatePayLinkDto,
+  UpdatePayLinkDto,
+  ListPayLinkOrdersOptions,
+  PayLinkOrderStatus,
+  CreatePayLinkCheckoutDto,
+  PayLinkCheckoutResult,
+  PayLinkOrderStatusResult,
+  WaitForPayLinkOrderOptions,
+  StripeConnectOnboardingResult,
+  StripeConnectDashboardResult,
+  StripeConnectStatusResult,
+  ImportJob,
+  ImportJobStatus,
+  ImportProgress,
+  CreateImportDto,
+  StreamImportProgressOptions,
+  CreateCsvImportDto,
+  ImportSource,
+  ShopProduct,
+  ShopProductVariant,
+  CreateShopProductDto,
+  UpdateShopProductDto,
+  ListShopProductsOptions,
+  CreateShopProductVariantDto,
+  UpdateShopProductVariantDto,
+  AdjustShopStockDto,
+  ShopOrder,
+  ShopOrderStatus,
+  ListShopOrdersOptions,
+  ShipShopOrderDto,
+  PrintConfig,
+  PrintJob,
+  PrintJobType,
+  PrintStats,
+  UpdatePrintConfigDto,
+  ListPrintJobsOptions,
+  AckPrintJobDto,
 } from "./types";
 
+/** How long plan usage is trusted by enforcePlanLimits checks before being read again */
+const PLAN_USAGE_TTL_MS = 60000;
+
+/** Order statuses that never change again: waitForPayLinkOrder stops on them whatever `until` says */
+const SETTLED_ORDER_STATUSES = [
+  PayLinkOrderStatus.FULFILLED,
+  PayLinkOrderStatus.FAILED,
+  PayLinkOrderStatus.REFUNDED,
+  PayLinkOrderStatus.PARTIALLY_REFUNDED,
+  PayLinkOrderStatus.ECOMMERCE_SYNC_FAILED,
+];
+
+/** State shared by a client and the workspace-scoped views created with forWorkspace */
+interface SharedClientState {
+  rateLimiter: TokenBucket | null;
+  rateLimitSeed: Promise<void> | null;
+  lastRateLimit?: RateLimitHeaders;
+  /** Usage read by enforcePlanLimits checks, per workspace ID ("" = personal workspace) */
+  planUsage: Map<string, { expiresAt: number; report: Promise<UsageReport | undefined> }>;
+}
+
 export class HoulaClient {
   private readonly config: ReturnType<typeof createConfig>;
+  private readonly shared: SharedClientState;
+  private workspaceId?: string;
+  /** Whether this client was created by forWorkspace, and cannot change workspace */
+  private readonly pinned: boolean;
 
   constructor(config: HoulaConfig) {
     this.config = createConfig(config);
+    this.shared = { rateLimiter: null, rateLimitSeed: null, planUsage: new Map() };
+    this.workspaceId = this.config.workspaceId;
+    this.pinned = false;
+    const { rateLimit } = this.config;
+    if (rateLimit?.requestsPerMinute) {
+      this.shared.rateLimiter = new TokenBucket(rateLimit.requestsPerMinute, rateLimit.burst);
+    }
   }
 
   /**
    * Set the workspace ID for all subsequent requests.
    * Pass undefined to clear (revert to default/personal workspace).
+   * Prefer forWorkspace when requests for different workspaces can run concurrently.
+   * @throws Error on clients returned by forWorkspace
    */
   setWorkspaceId(workspaceId: string | undefined): void {
-    (this.config as any).workspaceId = workspaceId;
+    if (this.pinned) {
+      throw new Error(`Hou.la SDK: this client is scoped to workspace ${this.workspaceId}; use forWorkspace() instead`);
+    }
+    this.workspaceId = workspaceId;
+  }
+
+  /**
+   * A client whose requests all target one workspace, whatever setWorkspaceId does on this one.
+   * It shares configuration, rate limiting and plan-usage caches with this client, so views are
+   * cheap to create and safe to use concurrently.
+   * @example
+   * const [a, b] = await Promise.all([houla.forWorkspace("ws-a").getTags(), houla.forWorkspace("ws-b").getTags()]);
+   */
+  forWorkspace(workspaceId: string): HoulaClient {
+    const scoped: HoulaClient = Object.create(HoulaClient.prototype);
+    return Object.assign(scoped, { config: this.config, shared: this.shared, workspaceId, pinned: true });
+  }
+
+  /**
+   * Run `fn` for every workspace the user belongs to, with a client scoped to it.
+   * Workspaces are processed one at a time unless `concurrency` is set. Results keep the
+   * order of listWorkspaces; the first rejection stops scheduling and is rethrown.
+   * @example
+   * const tagCounts = await houla.forEachWorkspace(async (client) => (await client.getTags()).length);
+   */
+  async forEachWorkspace<T>(
+    fn: (client: HoulaClient, workspace: Workspace) => Promise<T>,
+    options: Pick<BulkOptions, "concurrency"> = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<T[]> {
+    const workspaces = await this.listWorkspaces(requestOptions);
+    return mapConcurrent(workspaces, options.concurrency ?? 1, (workspace) =>
+      fn(this.forWorkspace(workspace.id), workspace),
+    );
+  }
+
+  /**
+   * Set the client-side rate limit budget, e.g. from `PlanLimits.apiRateLimit`.
+   * Enables the limiter if it was disabled.
+   * @param requestsPerMinute - Sustained request rate
+   * @param burst - Bucket capacity (defaults to requestsPerMinute)
+   */
+  setRateLimit(requestsPerMinute: number, burst?: number): void {
+    if (!(requestsPerMinute > 0)) {
+      throw new Error("Hou.la SDK: requestsPerMinute must be greater than 0");
+    }
+    if (burst !== undefined && !(Number.isFinite(burst) && burst >= 1)) {
+      throw new Error("Hou.la SDK: burst must be a finite number of at least 1");
+    }
+    if (this.shared.rateLimiter) {
+      this.shared.rateLimiter.setRate(requestsPerMinute, burst);
+    } else {
+      this.shared.rateLimiter = new TokenBucket(requestsPerMinute, burst);
+    }
+  }
+
+  /** Remaining client-side budget and the rate-limit headers of the last response */
+  getRateLimitStatus(): RateLimitStatus {
+    return {
+      requestsPerMinute: this.shared.rateLimiter?.rate,
+      remaining: this.shared.rateLimiter?.remaining,
+      queued: this.shared.rateLimiter?.queued ?? 0,
+      lastResponse: this.shared.lastRateLimit,
+    };
   }
 
   private get baseUrl(): string {
     return `${this.config.apiUrl}/api/link`;
   }
 
-  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  private authHeaders(options: RequestOptions = {}): Record<string, string> {
+    const headers: Record<string, string> = {
+      "X-API-Key": this.config.apiKey,
+    };
+    const workspaceId = options.workspaceId ?? this.workspaceId;
+    if (workspaceId) {
+      headers["X-Workspace-Id"] = workspaceId;
+    }
+    if (options.idempotencyKey) {
+      headers["Idempotency-Key"] = options.idempotencyKey;
+    }
+    return headers;
+  }
+
+  private async request<T>(endpoint: string, init: RequestInit = {}, options: RequestOptions = {}): Promise<T> {
     const url = endpoint.startsWith("http") ? endpoint : `${this.config.apiUrl}${endpoint}`;
-    
+    return this.send(
+      url,
+      {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+          ...this.authHeaders(options),
+          ...init.headers,
+          ...options.headers,
+        },
+      },
+      options,
+      (response) => response.json(),
+    );
+  }
+
+  /**
+   * Perform a fetch, retrying transient failures according to the retry policy.
+   * Only idempotent methods (or requests carrying an Idempotency-Key) are retried by default.
+   * Aborting options.signal cancels the attempt in flight and any pending retry.
+   * `read` consumes the response while the timeout and signal still apply.
+   */
+  private async send<T>(
+    url: string,
+    init: RequestInit,
+    options: RequestOptions,
+    read: (response: Response) => Promise<T>,
+  ): Promise<T> {
+    const method = (init.method || "GET").toUpperCase();
+    const policy = this.config.retry;
+    const headers = (init.headers ?? {}) as Record<string, string>;
+    const canRetry = isRetryableRequest(method, "Idempotency-Key" in headers, policy);
+
+    for (let attempt = 1; ; attempt++) {
+      this.assertNotAborted(method, url, options.signal);
+      await this.throttle(method, url, options.signal);
+      try {
+        return await this.sendOnce(method, url, init, options, read);
+      } catch (error) {
+        if (!canRetry || attempt >= policy.maxAttempts || !isRetryableError(error, policy)) {
+          throw error;
+        }
+        await sleep(getRetryDelay(error, attempt, policy), options.signal);
+      }
+    }
+  }
+
+  /**
+   * Perform a single fetch with the configured (or per-call) timeout, covering the body read by `read`.
+   * Non-2xx responses and transport failures are converted to typed HoulaError subclasses.
+   */
+  private async sendOnce<T>(
+    method: string,
+    url: string,
+    init: RequestInit,
+    options: RequestOptions,
+    read: (response: Response) => Promise<T>,
+  ): Promise<T> {
+    const timeout = options.timeout ?? this.config.timeout;
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const { signal } = options;
+    const cancel = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", cancel);
+    const interrupted = (error: unknown): HoulaError | undefined => {
+      if (signal?.aborted) {
+        return new HoulaAbortError("Request aborted", { method, url, cause: signal.reason });
+      }
+      if (controller.signal.aborted) {
+        return new HoulaTimeoutError(`Request timed out after ${timeout}ms`, {
+          method,
+          url,
+          timeoutMs: timeout,
+          cause: error,
+        });
+      }
+      return undefined;
+    };
 
     try {
-      const headers: Record<string, string> = {
-        "Content-Type": "application/json",
-        "X-API-Key": this.config.apiKey,
-      };
-      if (this.config.workspaceId) {
-        headers["X-Workspace-Id"] = this.config.workspaceId;
+      let response: Response;
+      try {
+        response = await fetch(url, { ...init, signal: controller.signal });
+      } catch (error) {
+        throw interrupted(error) ?? new HoulaNetworkError(error instanceof Error ? error.message : String(error), {
+          method,
+          url,
+          cause: error,
+        });
+      }
+
+      const rateLimit = parseRateLimitHeaders(response.headers);
+      if (rateLimit) {
+        this.shared.lastRateLimit = rateLimit;
+        if (rateLimit.remaining !== undefined) this.shared.rateLimiter?.sync(rateLimit.remaining);
       }
-      const response = await fetch(url, {
-        ...options,
-        signal: controller.signal,
-        headers: {
-          ...headers,
-          ...options.headers,
-        },
-      });
 
       if (!response.ok) {
-        const error = await response.json().catch(() => ({ message: response.statusText }));
-        throw new Error(error.message || `HTTP ${response.status}`);
+        throw await createHoulaError(response, method, url);
       }
 
-      return response.json();
+      try {
+        return await read(response);
+      } catch (error) {
+        throw interrupted(error) ?? error;
+      }
     } finally {
       clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", cancel);
+    }
+  }
+
+  private assertNotAborted(method: string, url: string, signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new HoulaAbortError("Request aborted", { method, url, cause: signal.reason });
+    }
+  }
+
+  /**
+   * Wait for a rate-limit token, seeding the budget from the workspace plan on first use.
+   * Aborting the signal leaves the queue without consuming a token.
+   */
+  private async throttle(method: string, url: string, signal?: AbortSignal): Promise<void> {
+    if (!this.shared.rateLimiter && this.config.rateLimit) {
+      this.shared.rateLimitSeed ??= this.seedRateLimit();
+      await this.shared.rateLimitSeed;
+    }
+    try {
+      await this.shared.rateLimiter?.acquire(signal);
+    } catch (error) {
+      this.assertNotAborted(method, url, signal);
+      throw error;
     }
+    this.assertNotAborted(method, url, signal);
   }
 
-  async getLinks(page = 1, limit = 20): Promise<PaginatedResponse<Link>> {
+  /**
+   * Read apiRateLimit from the current workspace (or the personal one).
+   * If the plan cannot be read, requests are left unthrottled.
+   */
+  private async seedRateLimit(): Promise<void> {
+    const { workspaceId } = this;
+    const url = `${this.config.apiUrl}/api/workspaces${workspaceId ? `/${workspaceId}` : ""}`;
+    try {
+      const headers = this.authHeaders();
+      const data: Workspace | Workspace[] = await this.sendOnce("GET", url, { headers }, {}, (r) => r.json());
+      const workspace = Array.isArray(data)
+        ? data.find((w) => w.type === WorkspaceType.PERSONAL) ?? data[0]
+        : data;
+      if (workspace?.apiRateLimit) {
+        this.setRateLimit(workspace.apiRateLimit, this.config.rateLimit?.burst);
+      }
+    } catch {
+      // Leave the limiter off; 429s still surface as HoulaRateLimitError
+    }
+  }
+
+  /**
+   * List links, one page at a time.
+   * @example
+   * await houla.getLinks(2, 50);
+   * await houla.getLinks({ tagIds: ["tag-uuid"], status: LinkStatus.ACTIVE, search: "promo", sortBy: "hitsCount" });
+   */
+  async getLinks(
+    pageOrOptions: number | ListLinksOptions = 1,
+    limit = 20,
+    requestOptions: RequestOptions = {},
+  ): Promise<PaginatedResponse<Link>> {
+    const options = typeof pageOrOptions === "number" ? { page: pageOrOptions, limit } : pageOrOptions;
     const params = new URLSearchParams({
-      page: page.toString(),
-      limit: Math.min(limit, 100).toString(),
+      page: (options.page ?? 1).toString(),
+      limit: Math.min(options.limit ?? 20, 100).toString(),
     });
-    return this.request<PaginatedResponse<Link>>(`/api/link?${params}`);
+    if (options.tagIds?.length) params.set("tagIds", options.tagIds.join(","));
+    if (options.status) params.set("status", options.status);
+    if (options.healthStatus) params.set("healthStatus", options.healthStatus);
+    if (options.customDomainId) params.set("customDomainId", options.customDomainId);
+    if (options.createdByType) params.set("createdByType", options.createdByType);
+    if (options.createdFrom) params.set("createdFrom", options.createdFrom);
+    if (options.createdTo) params.set("createdTo", options.createdTo);
+    if (options.search) params.set("search", options.search);
+    if (options.sortBy) params.set("sortBy", options.sortBy);
+    if (options.sortOrder) params.set("sortOrder", options.sortOrder);
+    return this.request<PaginatedResponse<Link>>(`/api/link?${params}`, {}, requestOptions);
+  }
+
+  /**
+   * Iterate over every link matching the filters, fetching pages on demand.
+   * @example
+   * for await (const link of houla.iterateLinks({ status: LinkStatus.EXPIRED })) { ... }
+   * for await (const page of houla.iterateLinks().pages()) { ... }
+   */
+  iterateLinks(
+    options: Omit<ListLinksOptions, "page"> & PaginateOptions = {},
+    requestOptions: RequestOptions = {},
+  ): PaginatedIterable<Link> {
+    const limit = options.limit ?? 100;
+    return paginate((page) => this.getLinks({ ...options, page, limit }, undefined, requestOptions), options);
   }
 
-  async getLinkById(id: string): Promise<Link> {
-    return this.request<Link>(`/api/link/${id}`);
+  async getLinkById(id: string, requestOptions: RequestOptions = {}): Promise<Link> {
+    return this.request<Link>(`/api/link/${id}`, {}, requestOptions);
   }
 
-  async getLinkByKey(key: string): Promise<Link> {
-    return this.request<Link>(`/api/link/${key}`);
+  async getLinkByKey(key: string, requestOptions: RequestOptions = {}): Promise<Link> {
+    return this.request<Link>(`/api/link/${key}`, {}, requestOptions);
   }
 
-  async checkAvailability(key: string): Promise<CheckAvailabilityResponse> {
-    const response = await fetch(`${this.baseUrl}/${key}/availability`);
-    return response.json();
+  /** Whether a short-link key is free. The endpoint is public, so no API key is sent. */
+  async checkAvailability(key: string, requestOptions: RequestOptions = {}): Promise<CheckAvailabilityResponse> {
+    const headers = this.authHeaders(requestOptions);
+    delete headers["X-API-Key"];
+    return this.send(
+      `${this.baseUrl}/${key}/availability`,
+      { headers: { ...headers, ...requestOptions.headers } },
+      requestOptions,
+      (response) => response.json(),
+    );
   }
 
-  async createLink(data: CreateLinkDto, source: LinkCreatedType = LinkCreatedType.API): Promise<Link> {
-    return this.request<Link>("/api/link", {
-      method: "POST",
-      body: JSON.stringify(data),
-      headers: { "X-Source": source },
+  /**
+   * Create a short link.
+   * Pass an idempotencyKey to make the call safe to retry automatically.
+   */
+  async createLink(
+    data: CreateLinkDto,
+    source: LinkCreatedType = LinkCreatedType.API,
+    requestOptions: RequestOptions = {},
+  ): Promise<Link> {
+    await this.checkPlanLimit("links", "/api/link", requestOptions);
+    const link = await this.request<Link>(
+      "/api/link",
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+        headers: { "X-Source": source },
+      },
+      requestOptions,
+    );
+    this.trackPlanUsage("links", 1, requestOptions);
+    return link;
+  }
+
+  async updateLink(id: string, data: UpdateLinkDto, requestOptions: RequestOptions = {}): Promise<Link> {
+    return this.request<Link>(
+      `/api/link/${id}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
+  }
+
+  async deleteLink(id: string, requestOptions: RequestOptions = {}): Promise<DeleteLinkResponse> {
+    const result = await this.request<DeleteLinkResponse>(
+      `/api/link/${id}`,
+      {
+        method: "DELETE",
+      },
+      requestOptions,
+    );
+    this.trackPlanUsage("links", -1, requestOptions);
+    return result;
+  }
+
+  // ─── Bulk Operations ───
+
+  /**
+   * Create many links with bounded concurrency.
+   * Failures do not abort the batch: each item gets its own result, in input order.
+   * @example
+   * const results = await houla.createLinks(dtos, { concurrency: 10 });
+   * const failed = results.filter((r) => !r.ok);
+   */
+  async createLinks(
+    data: CreateLinkDto[],
+    options: CreateLinksOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<CreateLinkResult[]> {
+    let completed = 0;
+    return mapConcurrent(data, options.concurrency ?? 5, async (input, index): Promise<CreateLinkResult> => {
+      try {
+        const link = await this.createLink(input, options.source, {
+          ...requestOptions,
+          idempotencyKey: options.idempotencyKey?.(input, index),
+        });
+        return { ok: true, link };
+      } catch (error) {
+        return { ok: false, error: error as Error, input };
+      } finally {
+        options.onProgress?.(++completed, data.length);
+      }
     });
   }
 
-  async updateLink(id: string, data: UpdateLinkDto): Promise<Link> {
-    return this.request<Link>(`/api/link/${id}`, {
-      method: "PATCH",
-      body: JSON.stringify(data),
+  /** Apply the same update to many links */
+  async updateLinks(
+    ids: string[],
+    data: UpdateLinkDto,
+    options: BulkOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<BulkReport<Link>> {
+    const itemOptions = { ...requestOptions, idempotencyKey: undefined };
+    return runBulk(ids, options, (id) => this.updateLink(id, data, itemOptions));
+  }
+
+  /** Delete many links */
+  async deleteLinks(
+    ids: string[],
+    options: BulkOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<BulkReport<DeleteLinkResponse>> {
+    const itemOptions = { ...requestOptions, idempotencyKey: undefined };
+    return runBulk(ids, options, (id) => this.deleteLink(id, itemOptions));
+  }
+
+  /**
+   * Add tags to many links, keeping the tags they already have.
+   * Links that already carry every tag are skipped.
+   */
+  async addTagsToLinks(
+    linkIds: string[],
+    tagIds: string[],
+    options: BulkOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<BulkReport<Link>> {
+    const itemOptions = { ...requestOptions, idempotencyKey: undefined };
+    return runBulk(linkIds, options, async (id) => {
+      const current = (await this.getLinkById(id, itemOptions)).tags?.map((tag) => tag.id) ?? [];
+      const missing = tagIds.filter((tagId) => !current.includes(tagId));
+      if (missing.length === 0) return null;
+      return this.updateLink(id, { tagIds: [...current, ...missing] }, itemOptions);
     });
   }
 
-  async deleteLink(id: string): Promise<DeleteLinkResponse> {
-    return this.request<DeleteLinkResponse>(`/api/link/${id}`, {
-      method: "DELETE",
+  /**
+   * Remove tags from many links, keeping their other tags.
+   * Links that carry none of the tags are skipped.
+   */
+  async removeTagsFromLinks(
+    linkIds: string[],
+    tagIds: string[],
+    options: BulkOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<BulkReport<Link>> {
+    const itemOptions = { ...requestOptions, idempotencyKey: undefined };
+    return runBulk(linkIds, options, async (id) => {
+      const current = (await this.getLinkById(id, itemOptions)).tags?.map((tag) => tag.id) ?? [];
+      const remaining = current.filter((tagId) => !tagIds.includes(tagId));
+      if (remaining.length === current.length) return null;
+      return this.updateLink(id, { tagIds: remaining }, itemOptions);
     });
   }
 
@@ -165,50 +630,47 @@ export class HoulaClient {
    * @param file - Image file (Blob/File). Accepted formats: JPEG, PNG, WebP, GIF. Max 8 MB.
    * @returns The public URL and R2 key of the uploaded image
    */
-  async uploadOgImage(linkId: string, file: Blob, filename = "og-image"): Promise<OgImageUploadResponse> {
+  async uploadOgImage(
+    linkId: string,
+    file: Blob,
+    filename = "og-image",
+    requestOptions: RequestOptions = {},
+  ): Promise<OgImageUploadResponse> {
     const formData = new FormData();
     formData.append("file", file, filename);
 
     const url = `${this.config.apiUrl}/api/manager/link/${linkId}/og-image`;
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
-
-    try {
-      const uploadHeaders: Record<string, string> = {
-        "X-API-Key": this.config.apiKey,
-      };
-      if (this.config.workspaceId) {
-        uploadHeaders["X-Workspace-Id"] = this.config.workspaceId;
-      }
-      const response = await fetch(url, {
+    return this.send(
+      url,
+      {
         method: "POST",
-        signal: controller.signal,
-        headers: uploadHeaders,
+        headers: { ...this.authHeaders(requestOptions), ...requestOptions.headers },
         body: formData,
-      });
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({ message: response.statusText }));
-        throw new Error(error.message || `HTTP ${response.status}`);
-      }
-
-      return response.json();
-    } finally {
-      clearTimeout(timeoutId);
-    }
+      },
+      requestOptions,
+      (response) => response.json(),
+    );
   }
 
   /**
    * Delete the uploaded OG image for a link.
    * @param linkId - UUID of the link
    */
-  async deleteOgImage(linkId: string): Promise<void> {
-    await this.request<void>(`/api/manager/link/${linkId}/og-image`, {
-      method: "DELETE",
-    });
+  async deleteOgImage(linkId: string, requestOptions: RequestOptions = {}): Promise<void> {
+    await this.request<void>(
+      `/api/manager/link/${linkId}/og-image`,
+      {
+        method: "DELETE",
+      },
+      requestOptions,
+    );
   }
 
-  async getQRCode(id: string, options?: QRCodeOptions): Promise<QRCodePngResponse | QRCodeSvgResponse> {
+  async getQRCode(
+    id: string,
+    options?: QRCodeOptions,
+    requestOptions: RequestOptions = {},
+  ): Promise<QRCodePngResponse | QRCodeSvgResponse> {
     const params = new URLSearchParams();
     if (options?.width) params.set("width", options.width.toString());
     if (options?.margin !== undefined) params.set("margin", options.margin.toString());
@@ -220,228 +682,380 @@ export class HoulaClient {
     const queryString = params.toString();
     return this.request<QRCodePngResponse | QRCodeSvgResponse>(
       `/api/link/${id}/qrcode${queryString ? `?${queryString}` : ""}`,
+      {},
+      requestOptions,
     );
   }
 
-  async getQRCodePng(id: string, options?: Omit<QRCodeOptions, "format">): Promise<QRCodePngResponse> {
-    return this.getQRCode(id, { ...options, format: QRCodeFormat.PNG }) as Promise<QRCodePngResponse>;
+  async getQRCodePng(
+    id: string,
+    options?: Omit<QRCodeOptions, "format">,
+    requestOptions: RequestOptions = {},
+  ): Promise<QRCodePngResponse> {
+    return this.getQRCode(id, { ...options, format: QRCodeFormat.PNG }, requestOptions) as Promise<QRCodePngResponse>;
   }
 
-  async getQRCodeSvg(id: string, options?: Omit<QRCodeOptions, "format">): Promise<QRCodeSvgResponse> {
-    return this.getQRCode(id, { ...options, format: QRCodeFormat.SVG }) as Promise<QRCodeSvgResponse>;
+  async getQRCodeSvg(
+    id: string,
+    options?: Omit<QRCodeOptions, "format">,
+    requestOptions: RequestOptions = {},
+  ): Promise<QRCodeSvgResponse> {
+    return this.getQRCode(id, { ...options, format: QRCodeFormat.SVG }, requestOptions) as Promise<QRCodeSvgResponse>;
   }
 
   // ─── Smart Routing (Link Rules) ───
 
-  async getLinkRules(linkId: string): Promise<LinkRule[]> {
-    return this.request<LinkRule[]>(`/api/link/${linkId}/rules`);
+  async getLinkRules(linkId: string, requestOptions: RequestOptions = {}): Promise<LinkRule[]> {
+    return this.request<LinkRule[]>(`/api/link/${linkId}/rules`, {}, requestOptions);
   }
 
-  async createLinkRule(linkId: string, data: CreateLinkRuleDto): Promise<LinkRule> {
-    return this.request<LinkRule>(`/api/link/${linkId}/rules`, {
-      method: "POST",
-      body: JSON.stringify(data),
-    });
+  async createLinkRule(
+    linkId: string,
+    data: CreateLinkRuleDto,
+    requestOptions: RequestOptions = {},
+  ): Promise<LinkRule> {
+    return this.request<LinkRule>(
+      `/api/link/${linkId}/rules`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
-  async updateLinkRule(linkId: string, ruleId: string, data: UpdateLinkRuleDto): Promise<LinkRule> {
-    return this.request<LinkRule>(`/api/link/${linkId}/rules/${ruleId}`, {
-      method: "PATCH",
-      body: JSON.stringify(data),
-    });
+  async updateLinkRule(
+    linkId: string,
+    ruleId: string,
+    data: UpdateLinkRuleDto,
+    requestOptions: RequestOptions = {},
+  ): Promise<LinkRule> {
+    return this.request<LinkRule>(
+      `/api/link/${linkId}/rules/${ruleId}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
-  async deleteLinkRule(linkId: string, ruleId: string): Promise<{ deleted: boolean }> {
-    return this.request<{ deleted: boolean }>(`/api/link/${linkId}/rules/${ruleId}`, {
-      method: "DELETE",
-    });
+  async deleteLinkRule(
+    linkId: string,
+    ruleId: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<{ deleted: boolean }> {
+    return this.request<{ deleted: boolean }>(
+      `/api/link/${linkId}/rules/${ruleId}`,
+      {
+        method: "DELETE",
+      },
+      requestOptions,
+    );
   }
 
-  async reorderLinkRules(linkId: string, ruleIds: string[]): Promise<LinkRule[]> {
-    return this.request<LinkRule[]>(`/api/link/${linkId}/rules/reorder`, {
-      method: "PUT",
-      body: JSON.stringify({ ruleIds }),
-    });
+  async reorderLinkRules(linkId: string, ruleIds: string[], requestOptions: RequestOptions = {}): Promise<LinkRule[]> {
+    return this.request<LinkRule[]>(
+      `/api/link/${linkId}/rules/reorder`,
+      {
+        method: "PUT",
+        body: JSON.stringify({ ruleIds }),
+      },
+      requestOptions,
+    );
   }
 
   // ─── Webhooks ───
 
-  async getWebhooks(): Promise<Webhook[]> {
-    return this.request<Webhook[]>("/api/manager/webhook");
+  async getWebhooks(requestOptions: RequestOptions = {}): Promise<Webhook[]> {
+    return this.request<Webhook[]>("/api/manager/webhook", {}, requestOptions);
   }
 
-  async getWebhookById(id: string): Promise<Webhook> {
-    return this.request<Webhook>(`/api/manager/webhook/${id}`);
+  async getWebhookById(id: string, requestOptions: RequestOptions = {}): Promise<Webhook> {
+    return this.request<Webhook>(`/api/manager/webhook/${id}`, {}, requestOptions);
   }
 
-  async createWebhook(data: CreateWebhookDto): Promise<WebhookWithSecret> {
-    return this.request<WebhookWithSecret>("/api/manager/webhook", {
-      method: "POST",
-      body: JSON.stringify(data),
-    });
+  async createWebhook(data: CreateWebhookDto, requestOptions: RequestOptions = {}): Promise<WebhookWithSecret> {
+    return this.request<WebhookWithSecret>(
+      "/api/manager/webhook",
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
-  async updateWebhook(id: string, data: UpdateWebhookDto): Promise<Webhook> {
-    return this.request<Webhook>(`/api/manager/webhook/${id}`, {
-      method: "PATCH",
-      body: JSON.stringify(data),
-    });
+  async updateWebhook(id: string, data: UpdateWebhookDto, requestOptions: RequestOptions = {}): Promise<Webhook> {
+    return this.request<Webhook>(
+      `/api/manager/webhook/${id}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
-  async deleteWebhook(id: string): Promise<{ deleted: boolean }> {
-    return this.request<{ deleted: boolean }>(`/api/manager/webhook/${id}`, {
-      method: "DELETE",
-    });
+  async deleteWebhook(id: string, requestOptions: RequestOptions = {}): Promise<{ deleted: boolean }> {
+    return this.request<{ deleted: boolean }>(
+      `/api/manager/webhook/${id}`,
+      {
+        method: "DELETE",
+      },
+      requestOptions,
+    );
   }
 
-  async enableWebhook(id: string): Promise<Webhook> {
-    return this.request<Webhook>(`/api/manager/webhook/${id}/enable`, {
-      method: "POST",
-    });
+  async enableWebhook(id: string, requestOptions: RequestOptions = {}): Promise<Webhook> {
+    return this.request<Webhook>(
+      `/api/manager/webhook/${id}/enable`,
+      {
+        method: "POST",
+      },
+      requestOptions,
+    );
   }
 
-  async disableWebhook(id: string): Promise<Webhook> {
-    return this.request<Webhook>(`/api/manager/webhook/${id}/disable`, {
-      method: "POST",
-    });
+  async disableWebhook(id: string, requestOptions: RequestOptions = {}): Promise<Webhook> {
+    return this.request<Webhook>(
+      `/api/manager/webhook/${id}/disable`,
+      {
+        method: "POST",
+      },
+      requestOptions,
+    );
   }
 
-  async testWebhook(id: string): Promise<TestWebhookResult> {
-    return this.request<TestWebhookResult>(`/api/manager/webhook/${id}/test`, {
-      method: "POST",
-    });
+  async testWebhook(id: string, requestOptions: RequestOptions = {}): Promise<TestWebhookResult> {
+    return this.request<TestWebhookResult>(
+      `/api/manager/webhook/${id}/test`,
+      {
+        method: "POST",
+      },
+      requestOptions,
+    );
   }
 
-  async regenerateWebhookSecret(id: string): Promise<WebhookWithSecret> {
-    return this.request<WebhookWithSecret>(`/api/manager/webhook/${id}/regenerate-secret`, {
-      method: "POST",
-    });
+  async regenerateWebhookSecret(id: string, requestOptions: RequestOptions = {}): Promise<WebhookWithSecret> {
+    return this.request<WebhookWithSecret>(
+      `/api/manager/webhook/${id}/regenerate-secret`,
+      {
+        method: "POST",
+      },
+      requestOptions,
+    );
   }
 
-  async getWebhookSecret(id: string): Promise<{ secret: string }> {
-    return this.request<{ secret: string }>(`/api/manager/webhook/${id}/secret`);
+  async getWebhookSecret(id: string, requestOptions: RequestOptions = {}): Promise<{ secret: string }> {
+    return this.request<{ secret: string }>(`/api/manager/webhook/${id}/secret`, {}, requestOptions);
   }
 
-  async getWebhookLogs(id: string, page = 1, limit = 20, success?: boolean): Promise<PaginatedResponse<WebhookLog>> {
+  async getWebhookLogs(
+    id: string,
+    page = 1,
+    limit = 20,
+    success?: boolean,
+    requestOptions: RequestOptions = {},
+  ): Promise<PaginatedResponse<WebhookLog>> {
     const params = new URLSearchParams({
       page: page.toString(),
       limit: Math.min(limit, 100).toString(),
     });
     if (success !== undefined) params.set("success", success.toString());
-    return this.request<PaginatedResponse<WebhookLog>>(`/api/manager/webhook/${id}/logs?${params}`);
+    return this.request<PaginatedResponse<WebhookLog>>(`/api/manager/webhook/${id}/logs?${params}`, {}, requestOptions);
+  }
+
+  /** Iterate over every delivery log of a webhook, fetching pages on demand */
+  iterateWebhookLogs(
+    id: string,
+    options: PaginateOptions & { success?: boolean } = {},
+    requestOptions: RequestOptions = {},
+  ): PaginatedIterable<WebhookLog> {
+    const limit = options.limit ?? 100;
+    return paginate((page) => this.getWebhookLogs(id, page, limit, options.success, requestOptions), options);
   }
 
-  async getWebhookStats(): Promise<WebhookStats> {
-    return this.request<WebhookStats>("/api/manager/webhook/stats");
+  async getWebhookStats(requestOptions: RequestOptions = {}): Promise<WebhookStats> {
+    return this.request<WebhookStats>("/api/manager/webhook/stats", {}, requestOptions);
   }
 
   // ─── Pixel Presets ───
 
-  async listPixelPresets(): Promise<PixelPreset[]> {
-    return this.request<PixelPreset[]>("/api/manager/pixel-preset");
+  async listPixelPresets(requestOptions: RequestOptions = {}): Promise<PixelPreset[]> {
+    return this.request<PixelPreset[]>("/api/manager/pixel-preset", {}, requestOptions);
   }
 
-  async getPixelPreset(id: string): Promise<PixelPreset> {
-    return this.request<PixelPreset>(`/api/manager/pixel-preset/${id}`);
+  async getPixelPreset(id: string, requestOptions: RequestOptions = {}): Promise<PixelPreset> {
+    return this.request<PixelPreset>(`/api/manager/pixel-preset/${id}`, {}, requestOptions);
   }
 
-  async createPixelPreset(data: CreatePixelPresetDto): Promise<PixelPreset> {
-    return this.request<PixelPreset>("/api/manager/pixel-preset", {
-      method: "POST",
-      body: JSON.stringify(data),
-    });
+  async createPixelPreset(data: CreatePixelPresetDto, requestOptions: RequestOptions = {}): Promise<PixelPreset> {
+    return this.request<PixelPreset>(
+      "/api/manager/pixel-preset",
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
-  async updatePixelPreset(id: string, data: UpdatePixelPresetDto): Promise<PixelPreset> {
-    return this.request<PixelPreset>(`/api/manager/pixel-preset/${id}`, {
-      method: "PATCH",
-      body: JSON.stringify(data),
-    });
+  async updatePixelPreset(
+    id: string,
+    data: UpdatePixelPresetDto,
+    requestOptions: RequestOptions = {},
+  ): Promise<PixelPreset> {
+    return this.request<PixelPreset>(
+      `/api/manager/pixel-preset/${id}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
-  async deletePixelPreset(id: string): Promise<void> {
-    await this.request<void>(`/api/manager/pixel-preset/${id}`, {
-      method: "DELETE",
-    });
+  async deletePixelPreset(id: string, requestOptions: RequestOptions = {}): Promise<void> {
+    await this.request<void>(
+      `/api/manager/pixel-preset/${id}`,
+      {
+        method: "DELETE",
+      },
+      requestOptions,
+    );
   }
 
   // ─── Custom Domains ───
 
-  async listDomains(): Promise<CustomDomain[]> {
-    return this.request<CustomDomain[]>("/api/domains");
+  async listDomains(requestOptions: RequestOptions = {}): Promise<CustomDomain[]> {
+    return this.request<CustomDomain[]>("/api/domains", {}, requestOptions);
   }
 
-  async getDomain(id: string): Promise<CustomDomain> {
-    return this.request<CustomDomain>(`/api/domains/${id}`);
+  async getDomain(id: string, requestOptions: RequestOptions = {}): Promise<CustomDomain> {
+    return this.request<CustomDomain>(`/api/domains/${id}`, {}, requestOptions);
   }
 
-  async createDomain(data: CreateCustomDomainDto): Promise<CustomDomain> {
-    return this.request<CustomDomain>("/api/domains", {
-      method: "POST",
-      body: JSON.stringify(data),
-    });
+  async createDomain(data: CreateCustomDomainDto, requestOptions: RequestOptions = {}): Promise<CustomDomain> {
+    await this.checkPlanLimit("domains", "/api/domains", requestOptions);
+    const domain = await this.request<CustomDomain>(
+      "/api/domains",
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
+    this.trackPlanUsage("domains", 1, requestOptions);
+    return domain;
   }
 
-  async verifyDomain(id: string): Promise<CustomDomain> {
-    return this.request<CustomDomain>(`/api/domains/${id}/verify`, {
-      method: "POST",
-    });
+  async verifyDomain(id: string, requestOptions: RequestOptions = {}): Promise<CustomDomain> {
+    return this.request<CustomDomain>(
+      `/api/domains/${id}/verify`,
+      {
+        method: "POST",
+      },
+      requestOptions,
+    );
   }
 
-  async changeDomainVerificationMethod(id: string, method: VerificationMethod): Promise<CustomDomain> {
-    return this.request<CustomDomain>(`/api/domains/${id}/verification-method`, {
-      method: "PATCH",
-      body: JSON.stringify({ method }),
-    });
+  async changeDomainVerificationMethod(
+    id: string,
+    method: VerificationMethod,
+    requestOptions: RequestOptions = {},
+  ): Promise<CustomDomain> {
+    return this.request<CustomDomain>(
+      `/api/domains/${id}/verification-method`,
+      {
+        method: "PATCH",
+        body: JSON.stringify({ method }),
+      },
+      requestOptions,
+    );
   }
 
-  async deleteDomain(id: string): Promise<{ success: boolean }> {
-    return this.request<{ success: boolean }>(`/api/domains/${id}`, {
-      method: "DELETE",
-    });
+  async deleteDomain(id: string, requestOptions: RequestOptions = {}): Promise<{ success: boolean }> {
+    const result = await this.request<{ success: boolean }>(
+      `/api/domains/${id}`,
+      {
+        method: "DELETE",
+      },
+      requestOptions,
+    );
+    this.trackPlanUsage("domains", -1, requestOptions);
+    return result;
   }
 
   // ─── Bio Pages (Multi Link-in-Bio) ───
 
-  async listBioPages(): Promise<BioPageSummary[]> {
-    return this.request<BioPageSummary[]>("/api/manager/profile/bio-pages");
-  }
-
-  async getBioPage(id: string): Promise<BioPage> {
-    return this.request<BioPage>(`/api/manager/profile/bio-pages/${id}`);
+  async listBioPages(requestOptions: RequestOptions = {}): Promise<BioPageSummary[]> {
+    return this.request<BioPageSummary[]>("/api/manager/profile/bio-pages", {}, requestOptions);
   }
 
-  async createBioPage(data: CreateBioPageDto): Promise<BioPage> {
-    return this.request<BioPage>("/api/manager/profile/bio-pages", {
-      method: "POST",
-      body: JSON.stringify(data),
-    });
+  async getBioPage(id: string, requestOptions: RequestOptions = {}): Promise<BioPage> {
+    return this.request<BioPage>(`/api/manager/profile/bio-pages/${id}`, {}, requestOptions);
   }
 
-  async updateBioPage(id: string, data: UpdateBioPageDto): Promise<BioPage> {
-    return this.request<BioPage>(`/api/manager/profile/bio-pages/${id}`, {
-      method: "PATCH",
-      body: JSON.stringify(data),
-    });
+  async createBioPage(data: CreateBioPageDto, requestOptions: RequestOptions = {}): Promise<BioPage> {
+    await this.checkPlanLimit("bioPages", "/api/manager/profile/bio-pages", requestOptions);
+    const bioPage = await this.request<BioPage>(
+      "/api/manager/profile/bio-pages",
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
+    this.trackPlanUsage("bioPages", 1, requestOptions);
+    return bioPage;
+  }
+
+  async updateBioPage(id: string, data: UpdateBioPageDto, requestOptions: RequestOptions = {}): Promise<BioPage> {
+    return this.request<BioPage>(
+      `/api/manager/profile/bio-pages/${id}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
-  async deleteBioPage(id: string): Promise<void> {
-    await this.request<void>(`/api/manager/profile/bio-pages/${id}`, {
-      method: "DELETE",
-    });
+  async deleteBioPage(id: string, requestOptions: RequestOptions = {}): Promise<void> {
+    await this.request<void>(
+      `/api/manager/profile/bio-pages/${id}`,
+      {
+        method: "DELETE",
+      },
+      requestOptions,
+    );
+    this.trackPlanUsage("bioPages", -1, requestOptions);
   }
 
-  async setBioPageAsDefault(id: string): Promise<BioPage> {
-    return this.request<BioPage>(`/api/manager/profile/bio-pages/${id}/set-default`, {
-      method: "PATCH",
-    });
+  async setBioPageAsDefault(id: string, requestOptions: RequestOptions = {}): Promise<BioPage> {
+    return this.request<BioPage>(
+      `/api/manager/profile/bio-pages/${id}/set-default`,
+      {
+        method: "PATCH",
+      },
+      requestOptions,
+    );
   }
 
-  async attachCustomDomainToBioPage(id: string, data: AttachCustomDomainToBioPageDto): Promise<BioPage> {
-    return this.request<BioPage>(`/api/manager/profile/bio-pages/${id}/custom-domain`, {
-      method: "PATCH",
-      body: JSON.stringify(data),
-    });
+  async attachCustomDomainToBioPage(
+    id: string,
+    data: AttachCustomDomainToBioPageDto,
+    requestOptions: RequestOptions = {},
+  ): Promise<BioPage> {
+    return this.request<BioPage>(
+      `/api/manager/profile/bio-pages/${id}/custom-domain`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
   // ─── Profile Links (Link-in-Bio content) ───
@@ -450,9 +1064,9 @@ export class HoulaClient {
    * Get all links (dedicated + existing) for a bio page.
    * @param bioPageId - Optional bio page UUID. If omitted, returns links from the default page.
    */
-  async getProfileLinks(bioPageId?: string): Promise<ProfileLink[]> {
+  async getProfileLinks(bioPageId?: string, requestOptions: RequestOptions = {}): Promise<ProfileLink[]> {
     const params = bioPageId ? `?bioPageId=${bioPageId}` : "";
-    return this.request<ProfileLink[]>(`/api/manager/profile/links${params}`);
+    return this.request<ProfileLink[]>(`/api/manager/profile/links${params}`, {}, requestOptions);
   }
 
   /**
@@ -460,12 +1074,20 @@ export class HoulaClient {
    * @param data - Link data (title, url, style, embedType, etc.)
    * @param bioPageId - Optional bio page UUID
    */
-  async createProfileLink(data: CreateProfileLinkDto, bioPageId?: string): Promise<any> {
+  async createProfileLink(
+    data: CreateProfileLinkDto,
+    bioPageId?: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<any> {
     const params = bioPageId ? `?bioPageId=${bioPageId}` : "";
-    return this.request(`/api/manager/profile/links${params}`, {
-      method: "POST",
-      body: JSON.stringify(data),
-    });
+    return this.request(
+      `/api/manager/profile/links${params}`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
   /**
@@ -474,12 +1096,21 @@ export class HoulaClient {
    * @param data - Fields to update
    * @param bioPageId - Optional bio page UUID
    */
-  async updateProfileLink(linkId: string, data: UpdateProfileLinkDto, bioPageId?: string): Promise<any> {
+  async updateProfileLink(
+    linkId: string,
+    data: UpdateProfileLinkDto,
+    bioPageId?: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<any> {
     const params = bioPageId ? `?bioPageId=${bioPageId}` : "";
-    return this.request(`/api/manager/profile/links/${linkId}${params}`, {
-      method: "PATCH",
-      body: JSON.stringify(data),
-    });
+    return this.request(
+      `/api/manager/profile/links/${linkId}${params}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
   /**
@@ -487,11 +1118,15 @@ export class HoulaClient {
    * @param linkId - UUID of the profile link
    * @param bioPageId - Optional bio page UUID
    */
-  async deleteProfileLink(linkId: string, bioPageId?: string): Promise<void> {
+  async deleteProfileLink(linkId: string, bioPageId?: string, requestOptions: RequestOptions = {}): Promise<void> {
     const params = bioPageId ? `?bioPageId=${bioPageId}` : "";
-    await this.request<void>(`/api/manager/profile/links/${linkId}${params}`, {
-      method: "DELETE",
-    });
+    await this.request<void>(
+      `/api/manager/profile/links/${linkId}${params}`,
+      {
+        method: "DELETE",
+      },
+      requestOptions,
+    );
   }
 
   /**
@@ -499,12 +1134,20 @@ export class HoulaClient {
    * @param data - Ordered list of ProfileLinkOrder UUIDs
    * @param bioPageId - Optional bio page UUID
    */
-  async reorderProfileLinks(data: ReorderLinksDto, bioPageId?: string): Promise<any> {
+  async reorderProfileLinks(
+    data: ReorderLinksDto,
+    bioPageId?: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<any> {
     const params = bioPageId ? `?bioPageId=${bioPageId}` : "";
-    return this.request(`/api/manager/profile/links/reorder${params}`, {
-      method: "PATCH",
-      body: JSON.stringify(data),
-    });
+    return this.request(
+      `/api/manager/profile/links/reorder${params}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
   /**
@@ -512,12 +1155,20 @@ export class HoulaClient {
    * @param data - Link ID and optional custom title
    * @param bioPageId - Optional bio page UUID
    */
-  async addExistingLink(data: AddExistingLinkDto, bioPageId?: string): Promise<any> {
+  async addExistingLink(
+    data: AddExistingLinkDto,
+    bioPageId?: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<any> {
     const params = bioPageId ? `?bioPageId=${bioPageId}` : "";
-    return this.request(`/api/manager/profile/links/from-existing${params}`, {
-      method: "POST",
-      body: JSON.stringify(data),
-    });
+    return this.request(
+      `/api/manager/profile/links/from-existing${params}`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
   /**
@@ -526,12 +1177,21 @@ export class HoulaClient {
    * @param data - Fields to update
    * @param bioPageId - Optional bio page UUID
    */
-  async updateExistingLink(existingLinkId: string, data: UpdateExistingLinkDto, bioPageId?: string): Promise<any> {
+  async updateExistingLink(
+    existingLinkId: string,
+    data: UpdateExistingLinkDto,
+    bioPageId?: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<any> {
     const params = bioPageId ? `?bioPageId=${bioPageId}` : "";
-    return this.request(`/api/manager/profile/links/from-existing/${existingLinkId}${params}`, {
-      method: "PATCH",
-      body: JSON.stringify(data),
-    });
+    return this.request(
+      `/api/manager/profile/links/from-existing/${existingLinkId}${params}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
   /**
@@ -539,11 +1199,19 @@ export class HoulaClient {
    * @param existingLinkId - UUID of the ProfileLinkFromExisting
    * @param bioPageId - Optional bio page UUID
    */
-  async deleteExistingLink(existingLinkId: string, bioPageId?: string): Promise<void> {
+  async deleteExistingLink(
+    existingLinkId: string,
+    bioPageId?: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<void> {
     const params = bioPageId ? `?bioPageId=${bioPageId}` : "";
-    await this.request<void>(`/api/manager/profile/links/from-existing/${existingLinkId}${params}`, {
-      method: "DELETE",
-    });
+    await this.request<void>(
+      `/api/manager/profile/links/from-existing/${existingLinkId}${params}`,
+      {
+        method: "DELETE",
+      },
+      requestOptions,
+    );
   }
 
   // ─── Social Links ───
@@ -552,9 +1220,9 @@ export class HoulaClient {
    * Get all social links for a bio page.
    * @param bioPageId - Optional bio page UUID
    */
-  async getSocialLinks(bioPageId?: string): Promise<ProfileSocialLink[]> {
+  async getSocialLinks(bioPageId?: string, requestOptions: RequestOptions = {}): Promise<ProfileSocialLink[]> {
     const params = bioPageId ? `?bioPageId=${bioPageId}` : "";
-    return this.request<ProfileSocialLink[]>(`/api/manager/profile/social${params}`);
+    return this.request<ProfileSocialLink[]>(`/api/manager/profile/social${params}`, {}, requestOptions);
   }
 
   /**
@@ -562,12 +1230,20 @@ export class HoulaClient {
    * @param data - Platform and URL
    * @param bioPageId - Optional bio page UUID
    */
-  async createSocialLink(data: CreateSocialLinkDto, bioPageId?: string): Promise<ProfileSocialLink> {
+  async createSocialLink(
+    data: CreateSocialLinkDto,
+    bioPageId?: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<ProfileSocialLink> {
     const params = bioPageId ? `?bioPageId=${bioPageId}` : "";
-    return this.request<ProfileSocialLink>(`/api/manager/profile/social${params}`, {
-      method: "POST",
-      body: JSON.stringify(data),
-    });
+    return this.request<ProfileSocialLink>(
+      `/api/manager/profile/social${params}`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
   /**
@@ -576,12 +1252,21 @@ export class HoulaClient {
    * @param data - Fields to update (url, isEnabled)
    * @param bioPageId - Optional bio page UUID
    */
-  async updateSocialLink(socialLinkId: string, data: UpdateSocialLinkDto, bioPageId?: string): Promise<ProfileSocialLink> {
+  async updateSocialLink(
+    socialLinkId: string,
+    data: UpdateSocialLinkDto,
+    bioPageId?: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<ProfileSocialLink> {
     const params = bioPageId ? `?bioPageId=${bioPageId}` : "";
-    return this.request<ProfileSocialLink>(`/api/manager/profile/social/${socialLinkId}${params}`, {
-      method: "PATCH",
-      body: JSON.stringify(data),
-    });
+    return this.request<ProfileSocialLink>(
+      `/api/manager/profile/social/${socialLinkId}${params}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
   /**
@@ -589,11 +1274,15 @@ export class HoulaClient {
    * @param socialLinkId - UUID of the social link
    * @param bioPageId - Optional bio page UUID
    */
-  async deleteSocialLink(socialLinkId: string, bioPageId?: string): Promise<void> {
+  async deleteSocialLink(socialLinkId: string, bioPageId?: string, requestOptions: RequestOptions = {}): Promise<void> {
     const params = bioPageId ? `?bioPageId=${bioPageId}` : "";
-    await this.request<void>(`/api/manager/profile/social/${socialLinkId}${params}`, {
-      method: "DELETE",
-    });
+    await this.request<void>(
+      `/api/manager/profile/social/${socialLinkId}${params}`,
+      {
+        method: "DELETE",
+      },
+      requestOptions,
+    );
   }
 
   /**
@@ -601,102 +1290,228 @@ export class HoulaClient {
    * @param data - Ordered list of social link UUIDs
    * @param bioPageId - Optional bio page UUID
    */
-  async reorderSocialLinks(data: ReorderSocialLinksDto, bioPageId?: string): Promise<any> {
+  async reorderSocialLinks(
+    data: ReorderSocialLinksDto,
+    bioPageId?: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<any> {
     const params = bioPageId ? `?bioPageId=${bioPageId}` : "";
-    return this.request(`/api/manager/profile/social/reorder${params}`, {
-      method: "PATCH",
-      body: JSON.stringify(data),
-    });
+    return this.request(
+      `/api/manager/profile/social/reorder${params}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
   // ─── Workspaces ───
 
   /** List all workspaces the authenticated user belongs to */
-  async listWorkspaces(): Promise<Workspace[]> {
-    return this.request<Workspace[]>("/api/workspaces");
+  async listWorkspaces(requestOptions: RequestOptions = {}): Promise<Workspace[]> {
+    return this.request<Workspace[]>("/api/workspaces", {}, requestOptions);
   }
 
   /** Get a workspace by ID */
-  async getWorkspace(id: string): Promise<Workspace> {
-    return this.request<Workspace>(`/api/workspaces/${id}`);
+  async getWorkspace(id: string, requestOptions: RequestOptions = {}): Promise<Workspace> {
+    return this.request<Workspace>(`/api/workspaces/${id}`, {}, requestOptions);
   }
 
   /** Create a new team workspace */
-  async createWorkspace(data: CreateWorkspaceDto): Promise<Workspace> {
-    return this.request<Workspace>("/api/workspaces", {
-      method: "POST",
-      body: JSON.stringify(data),
-    });
+  async createWorkspace(data: CreateWorkspaceDto, requestOptions: RequestOptions = {}): Promise<Workspace> {
+    return this.request<Workspace>(
+      "/api/workspaces",
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
   /** Update a workspace (owner only) */
-  async updateWorkspace(id: string, data: UpdateWorkspaceDto): Promise<Workspace> {
-    return this.request<Workspace>(`/api/workspaces/${id}`, {
-      method: "PATCH",
-      body: JSON.stringify(data),
-    });
+  async updateWorkspace(id: string, data: UpdateWorkspaceDto, requestOptions: RequestOptions = {}): Promise<Workspace> {
+    return this.request<Workspace>(
+      `/api/workspaces/${id}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
   /** Delete a team workspace (owner only) */
-  async deleteWorkspace(id: string): Promise<void> {
-    await this.request<void>(`/api/workspaces/${id}`, {
-      method: "DELETE",
-    });
+  async deleteWorkspace(id: string, requestOptions: RequestOptions = {}): Promise<void> {
+    await this.request<void>(
+      `/api/workspaces/${id}`,
+      {
+        method: "DELETE",
+      },
+      requestOptions,
+    );
   }
 
   /** List members of a workspace */
-  async listWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
-    return this.request<WorkspaceMember[]>(`/api/workspaces/${workspaceId}/members`);
+  async listWorkspaceMembers(workspaceId: string, requestOptions: RequestOptions = {}): Promise<WorkspaceMember[]> {
+    return this.request<WorkspaceMember[]>(`/api/workspaces/${workspaceId}/members`, {}, requestOptions);
   }
 
   /** Update a member's role (owner only) */
-  async updateMemberRole(workspaceId: string, memberId: string, data: UpdateMemberRoleDto): Promise<WorkspaceMember> {
-    return this.request<WorkspaceMember>(`/api/workspaces/${workspaceId}/members/${memberId}`, {
-      method: "PATCH",
-      body: JSON.stringify(data),
-    });
+  async updateMemberRole(
+    workspaceId: string,
+    memberId: string,
+    data: UpdateMemberRoleDto,
+    requestOptions: RequestOptions = {},
+  ): Promise<WorkspaceMember> {
+    return this.request<WorkspaceMember>(
+      `/api/workspaces/${workspaceId}/members/${memberId}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
   /** Remove a member from a workspace */
-  async removeMember(workspaceId: string, memberId: string): Promise<void> {
-    await this.request<void>(`/api/workspaces/${workspaceId}/members/${memberId}`, {
-      method: "DELETE",
-    });
+  async removeMember(workspaceId: string, memberId: string, requestOptions: RequestOptions = {}): Promise<void> {
+    await this.request<void>(
+      `/api/workspaces/${workspaceId}/members/${memberId}`,
+      {
+        method: "DELETE",
+      },
+      requestOptions,
+    );
   }
 
   /** Transfer workspace ownership (owner only) */
-  async transferOwnership(workspaceId: string, data: TransferOwnershipDto): Promise<Workspace> {
-    return this.request<Workspace>(`/api/workspaces/${workspaceId}/transfer`, {
-      method: "POST",
-      body: JSON.stringify(data),
-    });
+  async transferOwnership(
+    workspaceId: string,
+    data: TransferOwnershipDto,
+    requestOptions: RequestOptions = {},
+  ): Promise<Workspace> {
+    return this.request<Workspace>(
+      `/api/workspaces/${workspaceId}/transfer`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
   /** Invite a member by email (owner only) */
-  async inviteMember(workspaceId: string, data: InviteMemberDto): Promise<WorkspaceInvite> {
-    return this.request<WorkspaceInvite>(`/api/workspaces/${workspaceId}/invites`, {
-      method: "POST",
-      body: JSON.stringify(data),
-    });
+  async inviteMember(
+    workspaceId: string,
+    data: InviteMemberDto,
+    requestOptions: RequestOptions = {},
+  ): Promise<WorkspaceInvite> {
+    return this.request<WorkspaceInvite>(
+      `/api/workspaces/${workspaceId}/invites`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
   /** List pending invitations (owner only) */
-  async listInvites(workspaceId: string): Promise<WorkspaceInvite[]> {
-    return this.request<WorkspaceInvite[]>(`/api/workspaces/${workspaceId}/invites`);
+  async listInvites(workspaceId: string, requestOptions: RequestOptions = {}): Promise<WorkspaceInvite[]> {
+    return this.request<WorkspaceInvite[]>(`/api/workspaces/${workspaceId}/invites`, {}, requestOptions);
   }
 
   /** Cancel a pending invitation (owner only) */
-  async cancelInvite(workspaceId: string, inviteId: string): Promise<void> {
-    await this.request<void>(`/api/workspaces/${workspaceId}/invites/${inviteId}`, {
-      method: "DELETE",
-    });
+  async cancelInvite(workspaceId: string, inviteId: string, requestOptions: RequestOptions = {}): Promise<void> {
+    await this.request<void>(
+      `/api/workspaces/${workspaceId}/invites/${inviteId}`,
+      {
+        method: "DELETE",
+      },
+      requestOptions,
+    );
+  }
+
+  /** Element counts per type in a workspace */
+  async getWorkspaceStats(workspaceId: string, requestOptions: RequestOptions = {}): Promise<WorkspaceStats> {
+    return this.request<WorkspaceStats>(`/api/workspaces/${workspaceId}/stats`, {}, requestOptions);
   }
 
   /** Accept a workspace invitation */
-  async acceptInvite(token: string): Promise<WorkspaceMember> {
-    return this.request<WorkspaceMember>(`/api/workspaces/invites/${token}/accept`, {
-      method: "POST",
-    });
+  async acceptInvite(token: string, requestOptions: RequestOptions = {}): Promise<WorkspaceMember> {
+    return this.request<WorkspaceMember>(
+      `/api/workspaces/invites/${token}/accept`,
+      {
+        method: "POST",
+      },
+      requestOptions,
+    );
+  }
+
+  /**
+   * Move elements from another workspace into this one (e.g. a contractor's personal workspace
+   * into the team workspace). Requires ownership of both workspaces.
+   * Run previewMigrationToWorkspace first to see what would move.
+   * @param workspaceId - Target workspace
+   */
+  async migrateToWorkspace(
+    workspaceId: string,
+    data: MigrateToWorkspaceDto,
+    requestOptions: RequestOptions = {},
+  ): Promise<MigrationReport> {
+    this.assertMigrationTarget(workspaceId, data);
+    return this.request<MigrationReport>(
+      `/api/workspaces/${workspaceId}/migrate`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
+  }
+
+  /** Dry run of migrateToWorkspace: list the elements of each type that would move, without moving them */
+  async previewMigrationToWorkspace(
+    workspaceId: string,
+    data: MigrateToWorkspaceDto,
+    requestOptions: RequestOptions = {},
+  ): Promise<MigrationPreview> {
+    this.assertMigrationTarget(workspaceId, data);
+    return this.request<MigrationPreview>(
+      `/api/workspaces/${workspaceId}/migrate`,
+      {
+        method: "POST",
+        body: JSON.stringify({ ...data, dryRun: true }),
+      },
+      requestOptions,
+    );
+  }
+
+  private assertMigrationTarget(workspaceId: string, data: MigrateToWorkspaceDto): void {
+    if (data.sourceWorkspaceId === workspaceId) {
+      throw new Error("Hou.la SDK: cannot migrate a workspace into itself");
+    }
+  }
+
+  /**
+   * Convert a personal workspace into a team workspace, keeping all its elements.
+   * A new, empty personal workspace is created for the owner.
+   */
+  async upgradeWorkspace(
+    workspaceId: string,
+    data: UpgradeWorkspaceDto,
+    requestOptions: RequestOptions = {},
+  ): Promise<UpgradeWorkspaceResult> {
+    return this.request<UpgradeWorkspaceResult>(
+      `/api/workspaces/${workspaceId}/upgrade`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
   // ═══════════════════════════════════════════
@@ -704,36 +1519,52 @@ export class HoulaClient {
   // ═══════════════════════════════════════════
 
   /** List all tags for the current workspace */
-  async getTags(): Promise<Tag[]> {
-    return this.request<Tag[]>("/api/manager/tag");
+  async getTags(requestOptions: RequestOptions = {}): Promise<Tag[]> {
+    return this.request<Tag[]>("/api/manager/tag", {}, requestOptions);
   }
 
   /** Get a single tag by ID */
-  async getTag(id: string): Promise<Tag> {
-    return this.request<Tag>(`/api/manager/tag/${id}`);
+  async getTag(id: string, requestOptions: RequestOptions = {}): Promise<Tag> {
+    return this.request<Tag>(`/api/manager/tag/${id}`, {}, requestOptions);
   }
 
   /** Create a new tag */
-  async createTag(data: CreateTagDto): Promise<Tag> {
-    return this.request<Tag>("/api/manager/tag", {
-      method: "POST",
-      body: JSON.stringify(data),
-    });
+  async createTag(data: CreateTagDto, requestOptions: RequestOptions = {}): Promise<Tag> {
+    await this.checkPlanLimit("tags", "/api/manager/tag", requestOptions);
+    const tag = await this.request<Tag>(
+      "/api/manager/tag",
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
+    this.trackPlanUsage("tags", 1, requestOptions);
+    return tag;
   }
 
   /** Update an existing tag */
-  async updateTag(id: string, data: UpdateTagDto): Promise<Tag> {
-    return this.request<Tag>(`/api/manager/tag/${id}`, {
-      method: "PATCH",
-      body: JSON.stringify(data),
-    });
+  async updateTag(id: string, data: UpdateTagDto, requestOptions: RequestOptions = {}): Promise<Tag> {
+    return this.request<Tag>(
+      `/api/manager/tag/${id}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
   }
 
   /** Delete a tag */
-  async deleteTag(id: string): Promise<void> {
-    await this.request<void>(`/api/manager/tag/${id}`, {
-      method: "DELETE",
-    });
+  async deleteTag(id: string, requestOptions: RequestOptions = {}): Promise<void> {
+    await this.request<void>(
+      `/api/manager/tag/${id}`,
+      {
+        method: "DELETE",
+      },
+      requestOptions,
+    );
+    this.trackPlanUsage("tags", -1, requestOptions);
   }
 
   // ═══════════════════════════════════════════
@@ -741,32 +1572,889 @@ export class HoulaClient {
   // ═══════════════════════════════════════════
 
   /** Export click data for a link (JSON or CSV) */
-  async exportStats(linkId: string, options: ExportStatsOptions = {}): Promise<any> {
+  async exportStats(
+    linkId: string,
+    options: ExportStatsOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<any> {
     const params = new URLSearchParams();
     if (options.format) params.set("format", options.format);
     if (options.from) params.set("from", options.from);
     if (options.to) params.set("to", options.to);
     if (options.type) params.set("type", options.type);
     const qs = params.toString();
-    return this.request<any>(`/api/hit/export/${linkId}${qs ? `?${qs}` : ""}`);
+    return this.request<any>(`/api/hit/export/${linkId}${qs ? `?${qs}` : ""}`, {}, requestOptions);
   }
 
   /** Get hourly click stats for a link */
-  async getHourlyStats(linkId: string, options: HourlyStatsOptions = {}): Promise<HourlyStat[]> {
+  async getHourlyStats(
+    linkId: string,
+    options: HourlyStatsOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<HourlyStat[]> {
     const params = new URLSearchParams();
     if (options.period) params.set("period", options.period);
     if (options.from) params.set("from", options.from);
     if (options.to) params.set("to", options.to);
     const qs = params.toString();
-    return this.request<HourlyStat[]>(`/api/hit/hourly/${linkId}${qs ? `?${qs}` : ""}`);
+    return this.request<HourlyStat[]>(`/api/hit/hourly/${linkId}${qs ? `?${qs}` : ""}`, {}, requestOptions);
   }
 
   /** Get detailed stats breakdown for a link */
-  async getDetailedStats(linkId: string, options: DetailedStatsOptions = {}): Promise<DetailedStats> {
+  async getDetailedStats(
+    linkId: string,
+    options: DetailedStatsOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<DetailedStats> {
     const params = new URLSearchParams();
     if (options.days !== undefined) params.set("days", options.days.toString());
     const qs = params.toString();
-    return this.request<DetailedStats>(`/api/hit/detailed/${linkId}${qs ? `?${qs}` : ""}`);
+    return this.request<DetailedStats>(`/api/hit/detailed/${linkId}${qs ? `?${qs}` : ""}`, {}, requestOptions);
+  }
+
+  // ─── Stripe Connect ───
+
+  /**
+   * Start (or resume) Stripe Connect onboarding for receiving Pay Link payments.
+   * @param returnUrl - Where Stripe sends the seller back once onboarding is done
+   * @param refreshUrl - Where Stripe sends the seller when the onboarding link expired
+   * @returns URL of Stripe's onboarding page
+   */
+  async startStripeConnectOnboarding(
+    returnUrl: string,
+    refreshUrl: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<StripeConnectOnboardingResult> {
+    return this.request<StripeConnectOnboardingResult>(
+      "/api/stripe-connect/onboarding",
+      {
+        method: "POST",
+        body: JSON.stringify({ returnUrl, refreshUrl }),
+      },
+      requestOptions,
+    );
+  }
+
+  /** Single-use login link to the seller's Stripe Express dashboard */
+  async getStripeConnectDashboardLink(requestOptions: RequestOptions = {}): Promise<StripeConnectDashboardResult> {
+    return this.request<StripeConnectDashboardResult>("/api/stripe-connect/dashboard-link", {}, requestOptions);
+  }
+
+  async getStripeConnectStatus(requestOptions: RequestOptions = {}): Promise<StripeConnectStatusResult> {
+    return this.request<StripeConnectStatusResult>("/api/stripe-connect/status", {}, requestOptions);
+  }
+
+  /** Whether the connected account can both accept payments and receive payouts */
+  async isStripeConnectReady(requestOptions: RequestOptions = {}): Promise<boolean> {
+    const { chargesEnabled, payoutsEnabled } = await this.getStripeConnectStatus(requestOptions);
+    return chargesEnabled && payoutsEnabled;
+  }
+
+  // ─── Pay Links ───
+
+  /** List the PayLinks of a bio page, in display order */
+  async listPayLinks(bioPageId: string, requestOptions: RequestOptions = {}): Promise<PayLink[]> {
+    return this.request<PayLink[]>(`/api/pay-links?bioPageId=${encodeURIComponent(bioPageId)}`, {}, requestOptions);
+  }
+
+  async getPayLink(id: string, requestOptions: RequestOptions = {}): Promise<PayLink> {
+    return this.request<PayLink>(`/api/pay-links/${id}`, {}, requestOptions);
+  }
+
+  async createPayLink(data: CreatePayLinkDto, requestOptions: RequestOptions = {}): Promise<PayLink> {
+    return this.request<PayLink>(
+      "/api/pay-links",
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
+  }
+
+  async updatePayLink(id: string, data: UpdatePayLinkDto, requestOptions: RequestOptions = {}): Promise<PayLink> {
+    return this.request<PayLink>(
+      `/api/pay-links/${id}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
+  }
+
+  /** Archive a PayLink: it disappears from the bio page, its orders are kept */
+  async archivePayLink(id: string, requestOptions: RequestOptions = {}): Promise<PayLink> {
+    return this.updatePayLink(id, { status: PayLinkStatus.ARCHIVED }, requestOptions);
+  }
+
+  /**
+   * Set the display order of the PayLinks of a bio page.
+   * @param payLinkIds - PayLink UUIDs in their new order
+   */
+  async reorderPayLinks(
+    bioPageId: string,
+    payLinkIds: string[],
+    requestOptions: RequestOptions = {},
+  ): Promise<PayLink[]> {
+    return this.request<PayLink[]>(
+      "/api/pay-links/reorder",
+      {
+        method: "PATCH",
+        body: JSON.stringify({ bioPageId, payLinkIds }),
+      },
+      requestOptions,
+    );
+  }
+
+  /** List orders received on your PayLinks (seller side) */
+  async listPayLinkOrders(
+    options: ListPayLinkOrdersOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<PaginatedResponse<PayLinkOrder>> {
+    const params = new URLSearchParams({
+      page: (options.page ?? 1).toString(),
+      limit: Math.min(options.limit ?? 20, 100).toString(),
+    });
+    if (options.status) params.set("status", options.status);
+    if (options.payLinkId) params.set("payLinkId", options.payLinkId);
+    return this.request<PaginatedResponse<PayLinkOrder>>(`/api/pay-links/orders?${params}`, {}, requestOptions);
+  }
+
+  /** Iterate over every PayLink order, fetching pages on demand */
+  iteratePayLinkOrders(
+    options: Omit<ListPayLinkOrdersOptions, "page"> & PaginateOptions = {},
+    requestOptions: RequestOptions = {},
+  ): PaginatedIterable<PayLinkOrder> {
+    const limit = options.limit ?? 100;
+    return paginate((page) => this.listPayLinkOrders({ ...options, page, limit }, requestOptions), options);
+  }
+
+  async getPayLinkOrder(orderId: string, requestOptions: RequestOptions = {}): Promise<PayLinkOrder> {
+    return this.request<PayLinkOrder>(`/api/pay-links/orders/${orderId}`, {}, requestOptions);
+  }
+
+  /**
+   * Refund an order through Stripe.
+   * @param amountCents - Partial refund amount in cents; omit for a full refund
+   */
+  async refundPayLinkOrder(
+    orderId: string,
+    amountCents?: number,
+    requestOptions: RequestOptions = {},
+  ): Promise<PayLinkOrder> {
+    return this.request<PayLinkOrder>(
+      `/api/pay-links/orders/${orderId}/refund`,
+      {
+        method: "POST",
+        body: JSON.stringify(amountCents === undefined ? {} : { amountCents }),
+      },
+      requestOptions,
+    );
+  }
+
+  /** Revenue and order count aggregates */
+  async getPayLinkOrderStats(requestOptions: RequestOptions = {}): Promise<PayLinkOrderStats> {
+    return this.request<PayLinkOrderStats>("/api/pay-links/orders/stats", {}, requestOptions);
+  }
+
+  /**
+   * Start a Stripe Checkout session for a buyer.
+   * Redirect the buyer to `url` and keep `orderId` to follow the order.
+   */
+  async createPayLinkCheckout(
+    data: CreatePayLinkCheckoutDto,
+    requestOptions: RequestOptions = {},
+  ): Promise<PayLinkCheckoutResult> {
+    return this.request<PayLinkCheckoutResult>(
+      "/api/pay-links/checkout",
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
+  }
+
+  /** Public order status, with the download URL of digital products once paid */
+  async getPayLinkOrderStatus(orderId: string, requestOptions: RequestOptions = {}): Promise<PayLinkOrderStatusResult> {
+    return this.request<PayLinkOrderStatusResult>(`/api/pay-links/orders/${orderId}/status`, {}, requestOptions);
+  }
+
+  /**
+   * Poll an order until it reaches one of the `until` statuses.
+   * Resolves early once the order is settled (fulfilled, failed, refunded, partially refunded or
+   * ecommerce sync failed), so check `status` on the result.
+   * @throws HoulaTimeoutError when no matching status is reached within `timeout`
+   * @example
+   * const { status, downloadUrl } = await houla.waitForPayLinkOrder(orderId, { until: [PayLinkOrderStatus.FULFILLED] });
+   */
+  async waitForPayLinkOrder(
+    orderId: string,
+    options: WaitForPayLinkOrderOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<PayLinkOrderStatusResult> {
+    const until = options.until ?? [PayLinkOrderStatus.PAID, PayLinkOrderStatus.FULFILLED];
+    const timeout = options.timeout ?? 300000;
+    const interval = options.interval ?? 2000;
+    const deadline = Date.now() + timeout;
+
+    for (;;) {
+      const result = await this.getPayLinkOrderStatus(orderId, requestOptions);
+      if (until.includes(result.status) || SETTLED_ORDER_STATUSES.includes(result.status)) {
+        return result;
+      }
+      if (Date.now() + interval > deadline) {
+        throw new HoulaTimeoutError(`Order ${orderId} is still ${result.status} after ${timeout}ms`, {
+          method: "GET",
+          url: `${this.config.apiUrl}/api/pay-links/orders/${orderId}/status`,
+          timeoutMs: timeout,
+        });
+      }
+      await sleep(interval, requestOptions.signal);
+    }
+  }
+
+  // ─── Imports ───
+
+  /** Start importing links from another platform (Bitly), or from links parsed from a CSV file */
+  async startImport(
+    data: CreateImportDto | CreateCsvImportDto,
+    requestOptions: RequestOptions = {},
+  ): Promise<ImportJob> {
+    return this.request<ImportJob>(
+      "/api/import",
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
+  }
+
+  async getImportJob(id: string, requestOptions: RequestOptions = {}): Promise<ImportJob> {
+    return this.request<ImportJob>(`/api/import/${id}`, {}, requestOptions);
+  }
+
+  /** Import jobs of the current workspace, most recent first */
+  async listImportJobs(requestOptions: RequestOptions = {}): Promise<ImportJob[]> {
+    return this.request<ImportJob[]>("/api/import", {}, requestOptions);
+  }
+
+  async cancelImportJob(id: string, requestOptions: RequestOptions = {}): Promise<ImportJob> {
+    return this.request<ImportJob>(
+      `/api/import/${id}/cancel`,
+      {
+        method: "POST",
+      },
+      requestOptions,
+    );
+  }
+
+  /**
+   * Follow an import job until it completes, fails or is cancelled.
+   * Consumes the server-sent-events endpoint, reconnecting (with Last-Event-ID) when the stream drops.
+   * Falls back to polling getImportJob when SSE is unavailable or keeps failing.
+   * @example
+   * for await (const progress of houla.streamImportProgress(job.id)) {
+   *   console.log(`${progress.importedCount}/${progress.totalLinks}`);
+   * }
+   */
+  async *streamImportProgress(
+    id: string,
+    options: StreamImportProgressOptions = {},
+    requestOptions: RequestOptions = {},
+  ): AsyncGenerator<ImportProgress> {
+    const finished = [ImportJobStatus.COMPLETED, ImportJobStatus.FAILED, ImportJobStatus.CANCELLED];
+    const maxReconnects = options.maxReconnects ?? 3;
+    let reconnectDelay = options.reconnectDelay ?? 1000;
+    const { signal } = requestOptions;
+    let lastEventId: string | undefined;
+
+    for (let failures = 0; failures <= maxReconnects; failures++) {
+      let response: Response;
+      try {
+        const headers: Record<string, string> = {
+          ...this.authHeaders(requestOptions),
+          Accept: "text/event-stream",
+          ...requestOptions.headers,
+        };
+        if (lastEventId) headers["Last-Event-ID"] = lastEventId;
+        // The stream outlives the request timeout, so only the headers are awaited here
+        response = await this.send(
+          `${this.config.apiUrl}/api/import/${id}/progress`,
+          { headers },
+          requestOptions,
+          async (r) => r,
+        );
+      } catch (error) {
+        if (error instanceof HoulaAbortError) throw error;
+        if (!isRetryableError(error, this.config.retry)) break;
+        await sleep(reconnectDelay, signal);
+        continue;
+      }
+      if (!response.body || !response.headers?.get("content-type")?.includes("text/event-stream")) {
+        // Release the connection before polling
+        await response.body?.cancel().catch(() => undefined);
+        break;
+      }
+
+      try {
+        for await (const message of parseServerSentEvents(response.body, signal)) {
+          failures = 0;
+          lastEventId = message.id ?? lastEventId;
+          if (message.retry !== undefined) reconnectDelay = message.retry;
+          if (message.event !== "message" && message.event !== "progress") continue;
+
+          const progress = JSON.parse(message.data) as ImportProgress;
+          yield progress;
+          if (finished.includes(progress.status)) return;
+        }
+      } catch (error) {
+        // A malformed event is not worth reconnecting for
+        if (error instanceof SyntaxError) break;
+      }
+      await sleep(reconnectDelay, signal);
+    }
+
+    for (;;) {
+      const job = await this.getImportJob(id, requestOptions);
+      yield {
+        id: job.id,
+        status: job.status,
+        totalLinks: job.totalLinks,
+        importedCount: job.importedCount,
+        skippedCount: job.skippedCount,
+        errorCount: job.errorCount,
+        completedAt: job.completedAt,
+        failureReason: job.failureReason,
+      };
+      if (finished.includes(job.status)) return;
+      await sleep(options.pollInterval ?? 2000, signal);
+    }
+  }
+
+  /**
+   * Import links from a CSV file, parsed and validated locally.
+   * By default links are created directly with bounded concurrency; with `upload: true` the
+   * valid rows are sent as a single import job. Errors are reported per row, never thrown.
+   * `skipFileDuplicates` drops URLs repeated in the file; `skipDuplicates` skips URLs already in the workspace.
+   * @throws Error when the CSV has no URL column
+   * @example
+   * const report = await houla.importLinksFromCsv(await file.text(), { columnMapping: { url: "Destination" } });
+   * for (const { row, message } of report.errors) console.log(`Row ${row}: ${message}`);
+   */
+  async importLinksFromCsv(
+    csv: CsvInput,
+    options: CsvImportOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<CsvImportReport> {
+    const rows = parseCsv(await readCsvInput(csv), options.delimiter);
+    const { links, errors, skipped, totalRows } = csvRowsToLinks(rows, options);
+    const report: CsvImportReport = { totalRows, created: [], errors, skipped };
+
+    if (options.upload) {
+      if (links.length > 0) {
+        report.job = await this.startImport(
+          {
+            source: ImportSource.CSV,
+            links: links.map((link) => link.input),
+            skipDuplicates: options.skipDuplicates,
+            preserveCustomSlugs: options.preserveCustomSlugs,
+            tagIds: options.tagIds,
+          },
+          requestOptions,
+        );
+      }
+      return report;
+    }
+
+    let pending = links;
+    if (options.skipDuplicates) {
+      const existing = await mapConcurrent(links, options.concurrency ?? 5, ({ input }) =>
+        this.getLinks({ search: input.url, limit: 100 }, undefined, requestOptions).then(
+          (page) => page.data.some((link) => link.url === input.url),
+          (error: Error) => error,
+        ),
+      );
+      pending = links.filter(({ row }, index) => {
+        const found = existing[index];
+        if (found instanceof Error) errors.push({ row, message: found.message, error: found });
+        else if (found) skipped.push(row);
+        return found === false;
+      });
+      skipped.sort((a, b) => a - b);
+    }
+
+    const results = await this.createLinks(pending.map((link) => link.input), options, requestOptions);
+    results.forEach((result, index) => {
+      const { row } = pending[index];
+      if (result.ok) report.created.push({ row, link: result.link });
+      else errors.push({ row, message: result.error.message, error: result.error });
+    });
+    errors.sort((a, b) => a.row - b.row);
+    return report;
+  }
+
+  // ─── Shop: Products ───
+
+  async listShopProducts(
+    options: ListShopProductsOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<PaginatedResponse<ShopProduct>> {
+    const params = new URLSearchParams({
+      page: (options.page ?? 1).toString(),
+      limit: Math.min(options.limit ?? 20, 100).toString(),
+    });
+    if (options.status) params.set("status", options.status);
+    if (options.source) params.set("source", options.source);
+    if (options.productType) params.set("productType", options.productType);
+    if (options.collectionIds?.length) params.set("collectionIds", options.collectionIds.join(","));
+    if (options.search) params.set("search", options.search);
+    return this.request<PaginatedResponse<ShopProduct>>(`/api/shop/products?${params}`, {}, requestOptions);
+  }
+
+  /** Iterate over every shop product matching the filters, fetching pages on demand */
+  iterateShopProducts(
+    options: Omit<ListShopProductsOptions, "page"> & PaginateOptions = {},
+    requestOptions: RequestOptions = {},
+  ): PaginatedIterable<ShopProduct> {
+    const limit = options.limit ?? 100;
+    return paginate((page) => this.listShopProducts({ ...options, page, limit }, requestOptions), options);
+  }
+
+  async getShopProduct(id: string, requestOptions: RequestOptions = {}): Promise<ShopProduct> {
+    return this.request<ShopProduct>(`/api/shop/products/${id}`, {}, requestOptions);
+  }
+
+  async createShopProduct(data: CreateShopProductDto, requestOptions: RequestOptions = {}): Promise<ShopProduct> {
+    return this.request<ShopProduct>(
+      "/api/shop/products",
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
+  }
+
+  async updateShopProduct(
+    id: string,
+    data: UpdateShopProductDto,
+    requestOptions: RequestOptions = {},
+  ): Promise<ShopProduct> {
+    return this.request<ShopProduct>(
+      `/api/shop/products/${id}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
+  }
+
+  async deleteShopProduct(id: string, requestOptions: RequestOptions = {}): Promise<void> {
+    await this.request<void>(
+      `/api/shop/products/${id}`,
+      {
+        method: "DELETE",
+      },
+      requestOptions,
+    );
+  }
+
+  async createShopProductVariant(
+    productId: string,
+    data: CreateShopProductVariantDto,
+    requestOptions: RequestOptions = {},
+  ): Promise<ShopProductVariant> {
+    return this.request<ShopProductVariant>(
+      `/api/shop/products/${productId}/variants`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
+  }
+
+  async updateShopProductVariant(
+    productId: string,
+    variantId: string,
+    data: UpdateShopProductVariantDto,
+    requestOptions: RequestOptions = {},
+  ): Promise<ShopProductVariant> {
+    return this.request<ShopProductVariant>(
+      `/api/shop/products/${productId}/variants/${variantId}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
+  }
+
+  async deleteShopProductVariant(
+    productId: string,
+    variantId: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<void> {
+    await this.request<void>(
+      `/api/shop/products/${productId}/variants/${variantId}`,
+      {
+        method: "DELETE",
+      },
+      requestOptions,
+    );
+  }
+
+  /**
+   * Add or remove stock units, on the product or on one variant.
+   * Relative changes are safe with concurrent sales, unlike setting stockQuantity.
+   */
+  async adjustShopProductStock(
+    productId: string,
+    data: AdjustShopStockDto,
+    requestOptions: RequestOptions = {},
+  ): Promise<ShopProduct> {
+    return this.request<ShopProduct>(
+      `/api/shop/products/${productId}/stock`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
+  }
+
+  async setShopProductFeatured(
+    id: string,
+    isFeatured: boolean,
+    requestOptions: RequestOptions = {},
+  ): Promise<ShopProduct> {
+    return this.updateShopProduct(id, { isFeatured }, requestOptions);
+  }
+
+  /**
+   * Set the display order of shop products.
+   * @param productIds - Product UUIDs in their new order
+   */
+  async reorderShopProducts(productIds: string[], requestOptions: RequestOptions = {}): Promise<ShopProduct[]> {
+    return this.request<ShopProduct[]>(
+      "/api/shop/products/reorder",
+      {
+        method: "PATCH",
+        body: JSON.stringify({ productIds }),
+      },
+      requestOptions,
+    );
+  }
+
+  // ─── Shop: Orders ───
+
+  async listShopOrders(
+    options: ListShopOrdersOptions = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<PaginatedResponse<ShopOrder>> {
+    const params = new URLSearchParams({
+      page: (options.page ?? 1).toString(),
+      limit: Math.min(options.limit ?? 20, 100).toString(),
+    });
+    if (options.status) params.set("status", options.status);
+    if (options.from) params.set("from", options.from);
+    if (options.to) params.set("to", options.to);
+    if (options.search) params.set("search", options.search);
+    return this.request<PaginatedResponse<ShopOrder>>(`/api/shop/orders?${params}`, {}, requestOptions);
+  }
+
+  /** Iterate over every shop order matching the filters, fetching pages on demand */
+  iterateShopOrders(
+    options: Omit<ListShopOrdersOptions, "page"> & PaginateOptions = {},
+    requestOptions: RequestOptions = {},
+  ): PaginatedIterable<ShopOrder> {
+    const limit = options.limit ?? 100;
+    return paginate((page) => this.listShopOrders({ ...options, page, limit }, requestOptions), options);
+  }
+
+  async getShopOrder(id: string, requestOptions: RequestOptions = {}): Promise<ShopOrder> {
+    return this.request<ShopOrder>(`/api/shop/orders/${id}`, {}, requestOptions);
+  }
+
+  /**
+   * Mark an order as shipped, with optional tracking details.
+   * Pass the order itself instead of its ID to skip fetching its current status.
+   * @throws HoulaInvalidTransitionError when the order cannot be shipped from its current status
+   */
+  async markShopOrderShipped(
+    order: string | ShopOrder,
+    data: ShipShopOrderDto = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<ShopOrder> {
+    return this.transitionShopOrder(order, ShopOrderStatus.SHIPPED, "ship", data, requestOptions);
+  }
+
+  /**
+   * Mark an order as delivered. Only shipped orders, or paid local-pickup orders, can be delivered.
+   * @throws HoulaInvalidTransitionError when the order cannot be delivered from its current status
+   */
+  async markShopOrderDelivered(order: string | ShopOrder, requestOptions: RequestOptions = {}): Promise<ShopOrder> {
+    return this.transitionShopOrder(order, ShopOrderStatus.DELIVERED, "deliver", {}, requestOptions);
+  }
+
+  /**
+   * Cancel an order that has not shipped yet.
+   * @throws HoulaInvalidTransitionError when the order cannot be cancelled from its current status
+   */
+  async cancelShopOrder(
+    order: string | ShopOrder,
+    reason?: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<ShopOrder> {
+    const body = reason === undefined ? {} : { reason };
+    return this.transitionShopOrder(order, ShopOrderStatus.CANCELLED, "cancel", body, requestOptions);
+  }
+
+  /**
+   * Refund a paid order through Stripe.
+   * @param amountCents - Partial refund amount in cents; omit for a full refund
+   * @throws HoulaInvalidTransitionError when the order was never paid or is already refunded
+   */
+  async refundShopOrder(
+    order: string | ShopOrder,
+    amountCents?: number,
+    requestOptions: RequestOptions = {},
+  ): Promise<ShopOrder> {
+    const body = amountCents === undefined ? {} : { amountCents };
+    return this.transitionShopOrder(order, ShopOrderStatus.REFUNDED, "refund", body, requestOptions);
+  }
+
+  /** Private notes, never shown to the buyer */
+  async updateShopOrderSellerNotes(
+    id: string,
+    sellerNotes: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<ShopOrder> {
+    return this.request<ShopOrder>(
+      `/api/shop/orders/${id}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify({ sellerNotes }),
+      },
+      requestOptions,
+    );
+  }
+
+  /** Validate a status change against SHOP_ORDER_TRANSITIONS, then POST it */
+  private async transitionShopOrder(
+    order: string | ShopOrder,
+    to: ShopOrderStatus,
+    action: string,
+    body: object = {},
+    requestOptions: RequestOptions = {},
+  ): Promise<ShopOrder> {
+    const current = typeof order === "string" ? await this.getShopOrder(order, requestOptions) : order;
+    const endpoint = `/api/shop/orders/${current.id}/${action}`;
+    if (!canTransitionShopOrder(current, to)) {
+      throw new HoulaInvalidTransitionError(`Cannot move order ${current.id} from ${current.status} to ${to}`, {
+        method: "POST",
+        url: `${this.config.apiUrl}${endpoint}`,
+        from: current.status,
+        to,
+      });
+    }
+    return this.request<ShopOrder>(
+      endpoint,
+      {
+        method: "POST",
+        body: JSON.stringify(body),
+      },
+      requestOptions,
+    );
+  }
+
+  // ─── Print ───
+
+  async getPrintConfig(requestOptions: RequestOptions = {}): Promise<PrintConfig> {
+    return this.request<PrintConfig>("/api/print/config", {}, requestOptions);
+  }
+
+  async updatePrintConfig(data: UpdatePrintConfigDto, requestOptions: RequestOptions = {}): Promise<PrintConfig> {
+    return this.request<PrintConfig>(
+      "/api/print/config",
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
+  }
+
+  async listPrintJobs(options: ListPrintJobsOptions = {}, requestOptions: RequestOptions = {}): Promise<PrintJob[]> {
+    const params = new URLSearchParams();
+    if (options.status) params.set("status", options.status);
+    if (options.type) params.set("type", options.type);
+    const queryString = params.toString();
+    return this.request<PrintJob[]>(`/api/print/jobs${queryString ? `?${queryString}` : ""}`, {}, requestOptions);
+  }
+
+  /** Queue a document for an order (e.g. reprint a shipping label) */
+  async createPrintJob(orderId: string, type: PrintJobType, requestOptions: RequestOptions = {}): Promise<PrintJob> {
+    return this.request<PrintJob>(
+      "/api/print/jobs",
+      {
+        method: "POST",
+        body: JSON.stringify({ orderId, type }),
+      },
+      requestOptions,
+    );
+  }
+
+  /** Put a failed or cancelled job back in the queue */
+  async retryPrintJob(id: string, requestOptions: RequestOptions = {}): Promise<PrintJob> {
+    return this.request<PrintJob>(`/api/print/jobs/${id}/retry`, { method: "POST" }, requestOptions);
+  }
+
+  async cancelPrintJob(id: string, requestOptions: RequestOptions = {}): Promise<PrintJob> {
+    return this.request<PrintJob>(`/api/print/jobs/${id}/cancel`, { method: "POST" }, requestOptions);
+  }
+
+  /** Acknowledge that the printer has output the job */
+  async markPrintJobPrinted(id: string, requestOptions: RequestOptions = {}): Promise<PrintJob> {
+    return this.request<PrintJob>(`/api/print/jobs/${id}/printed`, { method: "POST" }, requestOptions);
+  }
+
+  /**
+   * Report a job's progress from a print station: SENT once it is handed to the printer,
+   * PRINTED when done, FAILED with the reason otherwise
+   */
+  async ackPrintJob(id: string, data: AckPrintJobDto, requestOptions: RequestOptions = {}): Promise<PrintJob> {
+    return this.request<PrintJob>(
+      `/api/print/jobs/${id}/ack`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
+  }
+
+  async getPrintStats(requestOptions: RequestOptions = {}): Promise<PrintStats> {
+    return this.request<PrintStats>("/api/print/stats", {}, requestOptions);
+  }
+
+  // ─── Billing ───
+
+  /** Available plans with their prices and limits */
+  async listPlans(requestOptions: RequestOptions = {}): Promise<PlanInfo[]> {
+    return this.request<PlanInfo[]>("/api/billing/plans", {}, requestOptions);
+  }
+
+  /** Plan, subscription state and limits of the current workspace (or the personal one) */
+  async getBillingInfo(requestOptions: RequestOptions = {}): Promise<BillingInfo> {
+    const workspaceId = await this.currentWorkspaceId(requestOptions);
+    return this.request<BillingInfo>(`/api/workspaces/${workspaceId}/billing`, {}, requestOptions);
+  }
+
+  /** Start a Stripe Checkout session to subscribe the current workspace to a paid plan. Redirect the user to `url`. */
+  async createBillingCheckout(data: CreateCheckoutDto, requestOptions: RequestOptions = {}): Promise<CheckoutResult> {
+    const workspaceId = await this.currentWorkspaceId(requestOptions);
+    return this.request<CheckoutResult>(
+      `/api/workspaces/${workspaceId}/billing/checkout`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      },
+      requestOptions,
+    );
+  }
+
+  /** Open the Stripe customer portal (invoices, payment method, cancellation). Redirect the user to `url`. */
+  async createBillingPortalSession(requestOptions: RequestOptions = {}): Promise<PortalResult> {
+    const workspaceId = await this.currentWorkspaceId(requestOptions);
+    return this.request<PortalResult>(
+      `/api/workspaces/${workspaceId}/billing/portal`,
+      {
+        method: "POST",
+      },
+      requestOptions,
+    );
+  }
+
+  /**
+   * Used, limit and remaining elements per plan-limited resource (links, tags, domains, bio pages,
+   * API keys) of the current workspace, or the personal one
+   */
+  async getUsageReport(requestOptions: RequestOptions = {}): Promise<UsageReport> {
+    const workspaceId = await this.currentWorkspaceId(requestOptions);
+    const [billing, stats] = await Promise.all([
+      this.request<BillingInfo>(`/api/workspaces/${workspaceId}/billing`, {}, requestOptions),
+      this.getWorkspaceStats(workspaceId, requestOptions),
+    ]);
+    return buildUsageReport(billing, stats);
+  }
+
+  /**
+   * With enforcePlanLimits, throw when the plan leaves no room for one more element.
+   * Best effort: concurrent creations may still reach the API, which remains the authority.
+   * When usage cannot be read, the request is sent unchecked.
+   */
+  private async checkPlanLimit(
+    resource: PlanLimitedResource,
+    endpoint: string,
+    requestOptions: RequestOptions = {},
+  ): Promise<void> {
+    if (!this.config.enforcePlanLimits) return;
+    const { workspaceId = this.workspaceId } = requestOptions;
+    const key = workspaceId ?? "";
+    let planUsage = this.shared.planUsage.get(key);
+    if (!planUsage || planUsage.expiresAt <= Date.now()) {
+      const entry = {
+        expiresAt: Date.now() + PLAN_USAGE_TTL_MS,
+        // Shared by every caller: only the target workspace is taken from requestOptions
+        report: this.getUsageReport({ workspaceId }).catch(() => {
+          if (this.shared.planUsage.get(key) === entry) this.shared.planUsage.delete(key);
+          return undefined;
+        }),
+      };
+      this.shared.planUsage.set(key, entry);
+      planUsage = entry;
+    }
+
+    const usage = (await planUsage.report)?.resources[resource];
+    if (usage?.limit != null && usage.remaining === 0) {
+      throw new HoulaPlanLimitError(`Plan limit reached: ${usage.used}/${usage.limit} ${resource}`, {
+        code: "PLAN_LIMIT",
+        method: "POST",
+        url: `${this.config.apiUrl}${endpoint}`,
+        resource,
+        limit: usage.limit,
+        used: usage.used,
+      });
+    }
+  }
+
+  /** Keep the cached usage in step with creations (+1) and deletions (-1) */
+  private trackPlanUsage(resource: PlanLimitedResource, delta: number, requestOptions: RequestOptions = {}): void {
+    const planUsage = this.shared.planUsage.get(requestOptions.workspaceId ?? this.workspaceId ?? "");
+    if (!planUsage) return;
+    planUsage.report = planUsage.report.then((report) => {
+      const usage = report?.resources[resource];
+      if (usage) {
+        usage.used = Math.max(0, usage.used + delta);
+        if (usage.limit !== null) usage.remaining = Math.max(0, usage.limit - usage.used);
+      }
+      return report;
+    });
+  }
+
+  /** The workspace this client targets, or the personal workspace when none is set */
+  private async currentWorkspaceId(requestOptions: RequestOptions = {}): Promise<string> {
+    const workspaceId = requestOptions.workspaceId ?? this.workspaceId;
+    if (workspaceId) return workspaceId;
+    const workspaces = await this.listWorkspaces(requestOptions);
+    const personal = workspaces.find((w) => w.type === WorkspaceType.PERSONAL) ?? workspaces[0];
+    if (!personal) throw new Error("Hou.la SDK: no workspace found for this API key");
+    return personal.id;
   }
 }
 
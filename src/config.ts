@@ -1,9 +1,80 @@
+/** Automatic retry policy for failed requests */
+export interface RetryPolicy {
+  /** Total attempts including the first one (1 = no retry) */
+  maxAttempts: number;
+  /** Base delay for exponential backoff, in milliseconds */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay (also caps Retry-After), in milliseconds */
+  maxDelayMs: number;
+  /** Randomize delays to avoid synchronized retries */
+  jitter: boolean;
+  /** HTTP status codes that trigger a retry */
+  retryableStatuses: number[];
+  /**
+   * Also retry non-idempotent requests (POST, PATCH) without an idempotency key.
+   * POST requests sent with an idempotency key are always retryable.
+   */
+  retryNonIdempotent: boolean;
+}
+
+/** Client-side rate limiter (token bucket) */
+export interface RateLimitOptions {
+  /**
+   * Requests allowed per minute.
+   * When omitted, the budget is seeded from the workspace's apiRateLimit before the first request.
+   */
+  requestsPerMinute?: number;
+  /** Maximum burst size (bucket capacity). Defaults to requestsPerMinute. */
+  burst?: number;
+}
+
 export interface HoulaConfig {
   apiKey: string;
   apiUrl?: string;
   timeout?: number;
   /** Default workspace ID. All requests will include X-Workspace-Id header when set. */
   workspaceId?: string;
+  /** Retry policy. Retries are disabled unless maxAttempts > 1. */
+  retry?: Partial<RetryPolicy>;
+  /**
+   * Queue requests client-side to stay within the API rate limit.
+   * `true` seeds the budget from the workspace plan. Disabled by default.
+   */
+  rateLimit?: boolean | RateLimitOptions;
+  /**
+   * Check plan limits (links, tags, domains, bio pages) before create calls and throw
+   * HoulaPlanLimitError locally instead of sending a request the API would reject. Disabled by default.
+   */
+  enforcePlanLimits?: boolean;
+}
+
+/** Per-call options accepted by HoulaClient methods */
+export interface RequestOptions {
+  /**
+   * Idempotency key sent as the Idempotency-Key header.
+   * Makes POST requests (e.g. createLink) eligible for automatic retries.
+   */
+  idempotencyKey?: string;
+  /** Cancels the request (including pending retries) when aborted. Rejects with HoulaAbortError. */
+  signal?: AbortSignal;
+  /** Timeout for this call in milliseconds, overriding HoulaConfig.timeout */
+  timeout?: number;
+  /** Workspace for this call, overriding the client's X-Workspace-Id */
+  workspaceId?: string;
+  /** Extra headers for this call, merged over the headers set by the SDK */
+  headers?: Record<string, string>;
+}
+
+/** HoulaConfig with defaults applied */
+export interface ResolvedHoulaConfig {
+  apiKey: string;
+  apiUrl: string;
+  timeout: number;
+  workspaceId?: string;
+  retry: RetryPolicy;
+  /** Undefined when the limiter is disabled */
+  rateLimit?: RateLimitOptions;
+  enforcePlanLimits: boolean;
 }
 
 export const DEFAULT_CONFIG: Partial<HoulaConfig> = {
@@ -11,7 +82,16 @@ export const DEFAULT_CONFIG: Partial<HoulaConfig> = {
   timeout: 30000,
 };
 
-export function createConfig(config: HoulaConfig): Required<Omit<HoulaConfig, "workspaceId">> & { workspaceId?: string } {
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  jitter: true,
+  retryableStatuses: [408, 425, 429, 500, 502, 503, 504],
+  retryNonIdempotent: false,
+};
+
+export function createConfig(config: HoulaConfig): ResolvedHoulaConfig {
   if (!config.apiKey) {
     throw new Error("Hou.la SDK: apiKey is required. Get one at https://hou.la/admin/settings/api-keys");
   }
@@ -20,10 +100,27 @@ export function createConfig(config: HoulaConfig): Required<Omit<HoulaConfig, "w
     throw new Error("Hou.la SDK: Invalid API key format. API keys must start with houla_sk_");
   }
 
+  const retry = { ...DEFAULT_RETRY_POLICY, ...config.retry };
+  if (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts < 1) {
+    throw new Error("Hou.la SDK: retry.maxAttempts must be a positive integer");
+  }
+
+  const rateLimit =
+    config.rateLimit === true ? {} : config.rateLimit ? { ...config.rateLimit } : undefined;
+  if (rateLimit?.requestsPerMinute !== undefined && !(rateLimit.requestsPerMinute > 0)) {
+    throw new Error("Hou.la SDK: rateLimit.requestsPerMinute must be greater than 0");
+  }
+  if (rateLimit?.burst !== undefined && !(Number.isFinite(rateLimit.burst) && rateLimit.burst >= 1)) {
+    throw new Error("Hou.la SDK: rateLimit.burst must be a finite number of at least 1");
+  }
+
   return {
     apiKey: config.apiKey,
     apiUrl: config.apiUrl || DEFAULT_CONFIG.apiUrl!,
     timeout: config.timeout || DEFAULT_CONFIG.timeout!,
     workspaceId: config.workspaceId,
+    retry,
+    rateLimit,
+    enforcePlanLimits: config.enforcePlanLimits ?? false,
   };
 }
@@ -0,0 +1,258 @@
+import { BulkOptions } from "./batch";
+import { CreateLinkDto, ImportJob, Link } from "./types";
+
+/** CSV source: text, or a stream of text/bytes (Web ReadableStream, Node.js Readable, file.stream()) */
+export type CsvInput = string | ReadableStream<Uint8Array> | AsyncIterable<string | Uint8Array>;
+
+/** CreateLinkDto fields that can be read from a CSV column */
+export type CsvLinkField =
+  | "url"
+  | "key"
+  | "title"
+  | "utm_source"
+  | "utm_medium"
+  | "utm_campaign"
+  | "utm_term"
+  | "utm_content"
+  | "customExpiresAt"
+  | "maxHits";
+
+/** Link field → CSV header name */
+export type CsvColumnMapping = Partial<Record<CsvLinkField, string>>;
+
+export interface CsvImportOptions extends BulkOptions {
+  /** Field delimiter (default: detected among `,`, `;` and tab from the header line) */
+  delimiter?: string;
+  /**
+   * Header name of each field. Unmapped fields match a header with the same name (case-insensitive);
+   * `url` also matches `long_url` and `destination`, `key` also matches `slug`.
+   */
+  columnMapping?: CsvColumnMapping;
+  /** Skip rows whose URL already appeared earlier in the file (default: true) */
+  skipFileDuplicates?: boolean;
+  /**
+   * Skip URLs already present in the workspace. In upload mode the server checks them
+   * (server default: true); in direct mode each URL is looked up with getLinks first,
+   * one extra request per row, so it is opt-in there (default: false).
+   */
+  skipDuplicates?: boolean;
+  /** Use the `key` column as custom short key; otherwise keys are generated (default: false) */
+  preserveCustomSlugs?: boolean;
+  /** Tags added to every imported link */
+  tagIds?: string[];
+  /**
+   * Upload the validated rows as a server-side import job instead of creating links one by one
+   * (default: false). The job can then be followed with streamImportProgress.
+   */
+  upload?: boolean;
+}
+
+/** A CSV row that could not be imported. Rows are numbered like in a spreadsheet: the header is row 1. */
+export interface CsvRowError {
+  row: number;
+  message: string;
+  /** API error, when the row was valid but creation failed */
+  error?: Error;
+}
+
+export interface CsvImportReport {
+  /** Data rows in the file (header and blank lines excluded) */
+  totalRows: number;
+  /** Created links with their row number (direct mode) */
+  created: { row: number; link: Link }[];
+  /** Rows rejected by validation or by the API, in row order */
+  errors: CsvRowError[];
+  /** Rows skipped as duplicates of an earlier row, or of an existing link (direct mode with skipDuplicates) */
+  skipped: number[];
+  /** Import job processing the rows (upload mode) */
+  job?: ImportJob;
+}
+
+/** Read a CSV input to text, decoding bytes as UTF-8 */
+export async function readCsvInput(input: CsvInput): Promise<string> {
+  if (typeof input === "string") return input;
+  const decoder = new TextDecoder();
+  let text = "";
+  const append = (chunk: string | Uint8Array) => {
+    text += typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+  };
+
+  if (typeof (input as ReadableStream<Uint8Array>).getReader === "function") {
+    const reader = (input as ReadableStream<Uint8Array>).getReader();
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      append(result.value);
+    }
+  } else {
+    for await (const chunk of input as AsyncIterable<string | Uint8Array>) append(chunk);
+  }
+  return text + decoder.decode();
+}
+
+/** Pick the candidate found most often in the header record, ignoring quoted text */
+function detectDelimiter(text: string): string {
+  const candidates = [",", ";", "\t"];
+  const counts = candidates.map(() => 0);
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === "\n" || char === "\r")) break;
+    else if (!quoted && candidates.includes(char)) counts[candidates.indexOf(char)]++;
+  }
+  return candidates[counts.indexOf(Math.max(...counts))];
+}
+
+/**
+ * Parse CSV text (RFC 4180): quoted fields with `""` escapes and embedded line breaks,
+ * CRLF or LF line endings, and a leading UTF-8 BOM.
+ */
+export function parseCsv(text: string, delimiter?: string): string[][] {
+  if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+  const sep = delimiter ?? detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') field += char;
+      else if (text[i + 1] === '"') field += text[i++];
+      else quoted = false;
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (text.startsWith(sep, i)) {
+      row.push(field);
+      field = "";
+      i += sep.length - 1;
+    } else if (char === "\n" || char === "\r") {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+      if (char === "\r" && text[i + 1] === "\n") i++;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+const DEFAULT_HEADERS: Record<CsvLinkField, string[]> = {
+  url: ["url", "long_url", "destination"],
+  key: ["key", "slug"],
+  title: ["title"],
+  utm_source: ["utm_source"],
+  utm_medium: ["utm_medium"],
+  utm_campaign: ["utm_campaign"],
+  utm_term: ["utm_term"],
+  utm_content: ["utm_content"],
+  customExpiresAt: ["customexpiresat", "expires_at"],
+  maxHits: ["maxhits", "max_hits"],
+};
+
+/** Validated rows of a CSV file */
+export interface CsvLinkRows {
+  links: { row: number; input: CreateLinkDto }[];
+  errors: CsvRowError[];
+  skipped: number[];
+  totalRows: number;
+}
+
+type CsvCellReader = (field: CsvLinkField) => string | undefined;
+
+/** Build the DTO of one row, or return why the row is invalid */
+function rowToLink(
+  get: CsvCellReader,
+  options: Pick<CsvImportOptions, "preserveCustomSlugs" | "tagIds">,
+): CreateLinkDto | string {
+  const url = get("url");
+  if (!url) return "Missing URL";
+  try {
+    if (!/^https?:$/.test(new URL(url).protocol)) return `Invalid URL: ${url}`;
+  } catch {
+    return `Invalid URL: ${url}`;
+  }
+
+  const input: CreateLinkDto = { url };
+  const key = get("key");
+  if (options.preserveCustomSlugs && key) {
+    if (!/^[A-Za-z0-9_-]+$/.test(key)) return `Invalid key: ${key}`;
+    input.key = key;
+  }
+  const title = get("title");
+  if (title) input.title = title;
+
+  for (const field of ["utm_source", "utm_medium", "utm_campaign", "utm_term", "utm_content"] as const) {
+    const value = get(field);
+    if (value) {
+      input[field] = value;
+      input.utm = true;
+    }
+  }
+
+  const expiresAt = get("customExpiresAt");
+  if (expiresAt) {
+    const date = new Date(expiresAt);
+    if (Number.isNaN(date.getTime())) return `Invalid expiration date: ${expiresAt}`;
+    input.customExpiresAt = date.toISOString();
+  }
+  const maxHits = get("maxHits");
+  if (maxHits) {
+    const value = Number(maxHits);
+    if (!Number.isInteger(value) || value < 1 || value > 1000000) return `Invalid maxHits: ${maxHits}`;
+    input.maxHits = value;
+  }
+  if (options.tagIds?.length) input.tagIds = [...options.tagIds];
+  return input;
+}
+
+/**
+ * Turn parsed CSV rows (header first) into validated CreateLinkDtos.
+ * Invalid rows are reported with their spreadsheet row number instead of throwing.
+ * @throws Error when the URL column cannot be found
+ */
+export function csvRowsToLinks(
+  rows: string[][],
+  options: Pick<CsvImportOptions, "columnMapping" | "skipFileDuplicates" | "preserveCustomSlugs" | "tagIds"> = {},
+): CsvLinkRows {
+  const [header = [], ...data] = rows;
+  const names = header.map((h) => h.trim().toLowerCase());
+  const columns = new Map<CsvLinkField, number>();
+  for (const field of Object.keys(DEFAULT_HEADERS) as CsvLinkField[]) {
+    const mapped = options.columnMapping?.[field];
+    const candidates = mapped ? [mapped.trim().toLowerCase()] : DEFAULT_HEADERS[field];
+    const index = names.findIndex((name) => candidates.includes(name));
+    if (index !== -1) columns.set(field, index);
+  }
+  if (!columns.has("url")) {
+    throw new Error(`Hou.la SDK: CSV has no "${options.columnMapping?.url ?? "url"}" column`);
+  }
+
+  const result: CsvLinkRows = { links: [], errors: [], skipped: [], totalRows: 0 };
+  const seen = new Set<string>();
+
+  for (const [index, cells] of data.entries()) {
+    const row = index + 2;
+    if (cells.every((cell) => cell.trim() === "")) continue;
+    result.totalRows++;
+
+    const link = rowToLink((field) => {
+      const column = columns.get(field);
+      return column === undefined ? undefined : cells[column]?.trim() || undefined;
+    }, options);
+    if (typeof link === "string") {
+      result.errors.push({ row, message: link });
+    } else if (options.skipFileDuplicates !== false && seen.has(link.url)) {
+      result.skipped.push(row);
+    } else {
+      seen.add(link.url);
+      result.links.push({ row, input: link });
+    }
+  }
+  return result;
+}
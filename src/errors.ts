@@ -0,0 +1,254 @@
+import { PlanLimitedResource } from "./types";
+
+/** Context attached to every error raised by the SDK */
+export interface HoulaErrorOptions {
+  /** HTTP status code (undefined when no response was received) */
+  status?: number;
+  /** Machine-readable error code returned by the API, when present */
+  code?: string;
+  /** Request ID from the X-Request-Id response header, when present */
+  requestId?: string;
+  /** HTTP method of the failed request */
+  method: string;
+  /** Full URL of the failed request */
+  url: string;
+  /** Parsed response body (JSON when possible) */
+  body?: unknown;
+  /** Delay requested by the Retry-After header, in milliseconds */
+  retryAfterMs?: number;
+  /** Underlying error (network failure, abort, etc.) */
+  cause?: unknown;
+}
+
+/** A single field-level validation failure */
+export interface HoulaFieldError {
+  /** Offending field, when the API reports one */
+  field?: string;
+  /** Human-readable message */
+  message: string;
+}
+
+/** Base class for every error thrown by HoulaClient */
+export class HoulaError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly requestId?: string;
+  readonly method: string;
+  readonly url: string;
+  readonly body?: unknown;
+  readonly retryAfterMs?: number;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: HoulaErrorOptions) {
+    super(message);
+    this.name = "HoulaError";
+    this.status = options.status;
+    this.code = options.code;
+    this.requestId = options.requestId;
+    this.method = options.method;
+    this.url = options.url;
+    this.body = options.body;
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+  }
+}
+
+/** 400 / 422 — the request payload was rejected */
+export class HoulaValidationError extends HoulaError {
+  /** Field-level details, when the API provides them */
+  readonly fieldErrors: HoulaFieldError[];
+
+  constructor(message: string, options: HoulaErrorOptions & { fieldErrors?: HoulaFieldError[] }) {
+    super(message, options);
+    this.name = "HoulaValidationError";
+    this.fieldErrors = options.fieldErrors ?? [];
+  }
+}
+
+/** 401 / 403 — invalid API key or insufficient permissions */
+export class HoulaAuthError extends HoulaError {
+  constructor(message: string, options: HoulaErrorOptions) {
+    super(message, options);
+    this.name = "HoulaAuthError";
+  }
+}
+
+/** 404 — the requested resource does not exist */
+export class HoulaNotFoundError extends HoulaError {
+  constructor(message: string, options: HoulaErrorOptions) {
+    super(message, options);
+    this.name = "HoulaNotFoundError";
+  }
+}
+
+/** 409 — the resource conflicts with an existing one (e.g. key already taken) */
+export class HoulaConflictError extends HoulaError {
+  constructor(message: string, options: HoulaErrorOptions) {
+    super(message, options);
+    this.name = "HoulaConflictError";
+  }
+}
+
+/** 429 — too many requests. See retryAfterMs. */
+export class HoulaRateLimitError extends HoulaError {
+  constructor(message: string, options: HoulaErrorOptions) {
+    super(message, options);
+    this.name = "HoulaRateLimitError";
+  }
+}
+
+/**
+ * 402 or plan-limit error code — the workspace plan does not allow this operation.
+ * Also thrown before sending the request when enforcePlanLimits is on.
+ */
+export class HoulaPlanLimitError extends HoulaError {
+  /** Limited resource, when the limit was checked client-side */
+  readonly resource?: PlanLimitedResource;
+  /** Plan limit for the resource */
+  readonly limit?: number;
+  /** Elements of the resource already in the workspace */
+  readonly used?: number;
+
+  constructor(
+    message: string,
+    options: HoulaErrorOptions & { resource?: PlanLimitedResource; limit?: number; used?: number },
+  ) {
+    super(message, options);
+    this.name = "HoulaPlanLimitError";
+    this.resource = options.resource;
+    this.limit = options.limit;
+    this.used = options.used;
+  }
+}
+
+/** The request did not complete within the configured timeout */
+export class HoulaTimeoutError extends HoulaError {
+  /** Timeout that was exceeded, in milliseconds */
+  readonly timeoutMs: number;
+
+  constructor(message: string, options: HoulaErrorOptions & { timeoutMs: number }) {
+    super(message, options);
+    this.name = "HoulaTimeoutError";
+    this.timeoutMs = options.timeoutMs;
+  }
+}
+
+/** The request was cancelled through RequestOptions.signal. Never retried. */
+export class HoulaAbortError extends HoulaError {
+  constructor(message: string, options: HoulaErrorOptions) {
+    super(message, options);
+    this.name = "HoulaAbortError";
+  }
+}
+
+/** No response was received (DNS failure, connection reset, etc.) */
+export class HoulaNetworkError extends HoulaError {
+  constructor(message: string, options: HoulaErrorOptions) {
+    super(message, options);
+    this.name = "HoulaNetworkError";
+  }
+}
+
+/** A status change was rejected client-side, before sending the request */
+export class HoulaInvalidTransitionError extends HoulaError {
+  /** Current status */
+  readonly from: string;
+  /** Requested status */
+  readonly to: string;
+
+  constructor(message: string, options: HoulaErrorOptions & { from: string; to: string }) {
+    super(message, options);
+    this.name = "HoulaInvalidTransitionError";
+    this.from = options.from;
+    this.to = options.to;
+  }
+}
+
+/** An incoming webhook delivery was rejected by parseWebhook */
+export class HoulaWebhookError extends Error {
+  /** invalid_signature: signature missing, wrong or expired. invalid_payload: body is not a webhook payload. */
+  readonly reason: "invalid_signature" | "invalid_payload";
+
+  constructor(message: string, reason: "invalid_signature" | "invalid_payload") {
+    super(message);
+    this.name = "HoulaWebhookError";
+    this.reason = reason;
+  }
+}
+
+/**
+ * Parse a Retry-After header value (delta-seconds or HTTP date) into milliseconds.
+ * Returns undefined when the header is absent or unparseable.
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+function extractFieldErrors(body: any): HoulaFieldError[] {
+  if (Array.isArray(body?.errors)) {
+    return body.errors.map((e: any) =>
+      typeof e === "string"
+        ? { message: e }
+        : {
+            field: e.field ?? e.property,
+            message: e.message ?? Object.values(e.constraints ?? {}).join(", "),
+          },
+    );
+  }
+  // NestJS class-validator: message is an array like ["url must be an URL address"]
+  if (Array.isArray(body?.message)) {
+    return body.message.map((message: string) => ({
+      field: /^[\w.]+(?= )/.exec(message)?.[0],
+      message,
+    }));
+  }
+  return [];
+}
+
+/**
+ * Build the typed error matching a non-2xx response.
+ * The response body is consumed.
+ */
+export async function createHoulaError(response: Response, method: string, url: string): Promise<HoulaError> {
+  const body: any = await response.json().catch(() => ({ message: response.statusText }));
+  const headers = response.headers;
+  const status = response.status;
+  const code: string | undefined = body?.code ?? body?.errorCode;
+  const rawMessage = body?.message;
+  const message =
+    (Array.isArray(rawMessage) ? rawMessage.join("; ") : rawMessage) || `HTTP ${status}`;
+  const options: HoulaErrorOptions = {
+    status,
+    code,
+    requestId: headers?.get("x-request-id") ?? body?.requestId ?? undefined,
+    method,
+    url,
+    body,
+    retryAfterMs: parseRetryAfter(headers?.get("retry-after")),
+  };
+
+  if (status === 402 || (code && /PLAN_LIMIT/i.test(code))) {
+    return new HoulaPlanLimitError(message, options);
+  }
+  switch (status) {
+    case 400:
+    case 422:
+      return new HoulaValidationError(message, { ...options, fieldErrors: extractFieldErrors(body) });
+    case 401:
+    case 403:
+      return new HoulaAuthError(message, options);
+    case 404:
+      return new HoulaNotFoundError(message, options);
+    case 409:
+      return new HoulaConflictError(message, options);
+    case 429:
+      return new HoulaRateLimitError(message, options);
+    default:
+      return new HoulaError(message, options);
+  }
+}
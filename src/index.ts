@@ -1,10 +1,79 @@
 // Configuration
-export { DEFAULT_CONFIG, createConfig } from "./config";
-export type { HoulaConfig } from "./config";
+export { DEFAULT_CONFIG, DEFAULT_RETRY_POLICY, createConfig } from "./config";
+export type {
+  HoulaConfig,
+  ResolvedHoulaConfig,
+  RetryPolicy,
+  RateLimitOptions,
+  RequestOptions,
+} from "./config";
 
 // Client
 export { HoulaClient, createHoulaClient } from "./client";
 
+// Errors
+export {
+  HoulaError,
+  HoulaValidationError,
+  HoulaAuthError,
+  HoulaNotFoundError,
+  HoulaConflictError,
+  HoulaRateLimitError,
+  HoulaPlanLimitError,
+  HoulaTimeoutError,
+  HoulaAbortError,
+  HoulaNetworkError,
+  HoulaInvalidTransitionError,
+  HoulaWebhookError,
+} from "./errors";
+export type { HoulaErrorOptions, HoulaFieldError } from "./errors";
+export type { RateLimitStatus, RateLimitHeaders } from "./rate-limiter";
+
+// Pagination
+export { paginate } from "./pagination";
+export type { PaginateOptions, PaginatedIterable } from "./pagination";
+
+// Webhooks
+export { verifyWebhookSignature, parseWebhook, WebhookDispatcher, WEBHOOK_SIGNATURE_HEADER } from "./webhooks";
+export type { VerifyWebhookOptions, WebhookRawBody, WebhookHeaders, WebhookHandler } from "./webhooks";
+export { houlaWebhookHandler, houlaWebhookMiddleware, handleWebhookRequest } from "./webhook-adapters";
+export type {
+  WebhookHandlers,
+  WebhookHandlerOptions,
+  WebhookHandlerResult,
+  NodeWebhookRequest,
+  NodeWebhookResponse,
+} from "./webhook-adapters";
+
+// Bulk operations
+export type { BulkOptions, BulkReport, CreateLinksOptions, CreateLinkResult } from "./batch";
+
+// CSV import
+export { parseCsv } from "./csv";
+export type { CsvInput, CsvImportOptions, CsvImportReport, CsvRowError, CsvColumnMapping, CsvLinkField } from "./csv";
+
+// Shop variants
+export { buildVariantMatrix, expandVariantOptions, reconcileVariants } from "./variants";
+export type { VariantOptions, VariantValue, VariantTemplate, VariantDiff } from "./variants";
+
+// Shop orders
+export { SHOP_ORDER_TRANSITIONS, canTransitionShopOrder } from "./shop-orders";
+
+// Plan limits
+export { PLAN_LIMIT_KEYS, buildUsageReport } from "./plan-limits";
+
+// Print agent
+export { PrintAgent, decodePrintJob, tcpPrintSink, directoryPrintSink } from "./print-agent";
+export type {
+  PrintAgentOptions,
+  PrintDocument,
+  PrintSink,
+  TcpPrintSinkOptions,
+  PrintNetModule,
+  PrintSocket,
+  PrintFsModule,
+} from "./print-agent";
+
 // Types - Enums
 export {
   LinkHealthStatus,
@@ -27,6 +96,18 @@ export {
   ShopProductType,
   ShopProductStatus,
   ShopOrderStatus,
+  StripeConnectStatus,
+  PayLinkStatus,
+  PayLinkProductType,
+  PayLinkCurrency,
+  PayLinkProductSource,
+  PayLinkCtaStyle,
+  PayLinkOrderStatus,
+  PrintJobType,
+  PrintJobStatus,
+  PrintLabelFormat,
+  PrintInvoiceTrigger,
+  PrintLabelTemplate,
 } from "./types";
 
 // Types - Interfaces
@@ -36,6 +117,8 @@ export type {
   QRCodeOptions,
   CreateLinkDto,
   UpdateLinkDto,
+  ListLinksOptions,
+  LinkSortField,
   PaginatedResponse,
   QRCodePngResponse,
   QRCodeSvgResponse,
@@ -56,6 +139,21 @@ export type {
   WebhookLog,
   WebhookStats,
   TestWebhookResult,
+  WebhookVisitorData,
+  WebhookLinkRef,
+  LinkClickedEventData,
+  LinkCreatedEventData,
+  LinkUpdatedEventData,
+  LinkDeletedEventData,
+  LinkHealthChangedEventData,
+  LinkSafetyChangedEventData,
+  LinkExpiredEventData,
+  LinkPasswordAttemptEventData,
+  ProfileVisitedEventData,
+  ProfileLinkClickedEventData,
+  WebhookEventDataMap,
+  WebhookEventPayload,
+  WebhookBatchPayload,
   CustomDomain,
   CreateCustomDomainDto,
   BioPageSummary,
@@ -71,15 +169,59 @@ export type {
   InviteMemberDto,
   UpdateMemberRoleDto,
   TransferOwnershipDto,
+  MigrateToWorkspaceDto,
+  MigrationResource,
+  MigrationReport,
+  MigrationPreviewItem,
+  MigrationPreview,
+  UpgradeWorkspaceDto,
+  UpgradeWorkspaceResult,
+  PlanLimits,
+  PlanInfo,
+  BillingInfo,
+  CreateCheckoutDto,
+  CheckoutResult,
+  PortalResult,
+  PlanLimitedResource,
+  ResourceUsage,
+  UsageReport,
+  WorkspaceStats,
   ImportJob,
   CreateImportDto,
+  CreateCsvImportDto,
   ImportProgress,
+  StreamImportProgressOptions,
   ShopProductOption,
   ShopProductVariant,
   ShopProduct,
   CreateShopProductDto,
   UpdateShopProductDto,
+  ListShopProductsOptions,
+  CreateShopProductVariantDto,
+  UpdateShopProductVariantDto,
+  AdjustShopStockDto,
   ShopOrderLineItem,
   ShopOrderShippingAddress,
   ShopOrder,
+  ListShopOrdersOptions,
+  ShipShopOrderDto,
+  StripeConnectOnboardingResult,
+  StripeConnectDashboardResult,
+  StripeConnectStatusResult,
+  PayLink,
+  PayLinkOrder,
+  PayLinkOrderStats,
+  CreatePayLinkDto,
+  UpdatePayLinkDto,
+  ListPayLinkOrdersOptions,
+  CreatePayLinkCheckoutDto,
+  PayLinkCheckoutResult,
+  PayLinkOrderStatusResult,
+  WaitForPayLinkOrderOptions,
+  PrintConfig,
+  PrintJob,
+  PrintStats,
+  UpdatePrintConfigDto,
+  ListPrintJobsOptions,
+  AckPrintJobDto,
 } from "./types";
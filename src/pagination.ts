@@ -0,0 +1,62 @@
+import { PaginatedResponse } from "./types";
+
+/** Options for iterating over a paginated endpoint */
+export interface PaginateOptions {
+  /** Items per page (capped at 100 by the API, default: 100) */
+  limit?: number;
+  /** First page to fetch (default: 1) */
+  startPage?: number;
+  /** Maximum number of pages fetched concurrently ahead of the consumer (default: 1) */
+  concurrency?: number;
+}
+
+/** Async iterable over every item of a paginated endpoint */
+export interface PaginatedIterable<T> extends AsyncIterable<T> {
+  /** Iterate page by page instead of item by item */
+  pages(): AsyncIterable<PaginatedResponse<T>>;
+}
+
+/**
+ * Turn a page fetcher into an async iterable.
+ * The first page is fetched alone to learn `pageCount`; following pages are prefetched
+ * up to `concurrency` at a time and yielded in order. Breaking out of the loop stops
+ * further fetching.
+ */
+export function paginate<T>(
+  fetchPage: (page: number) => Promise<PaginatedResponse<T>>,
+  options: Pick<PaginateOptions, "startPage" | "concurrency"> = {},
+): PaginatedIterable<T> {
+  const startPage = options.startPage ?? 1;
+  const concurrency = Math.max(1, options.concurrency ?? 1);
+
+  async function* pages(): AsyncGenerator<PaginatedResponse<T>> {
+    const first = await fetchPage(startPage);
+    if (first.data.length === 0) return;
+    yield first;
+
+    const lastPage = first.pageCount;
+    let nextPage = startPage + 1;
+    const inflight: Promise<PaginatedResponse<T>>[] = [];
+
+    while (nextPage <= lastPage || inflight.length > 0) {
+      while (inflight.length < concurrency && nextPage <= lastPage) {
+        const pending = fetchPage(nextPage++);
+        // Abandoned prefetches (early break) must not surface as unhandled rejections
+        pending.catch(() => undefined);
+        inflight.push(pending);
+      }
+      const page = await inflight.shift()!;
+      if (page.data.length === 0) return;
+      yield page;
+    }
+  }
+
+  return {
+    pages,
+    async *[Symbol.asyncIterator]() {
+      for await (const page of pages()) {
+        yield* page.data;
+      }
+    },
+  };
+}
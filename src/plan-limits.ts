@@ -0,0 +1,21 @@
+import { BillingInfo, PlanLimitedResource, PlanLimits, UsageReport, WorkspaceStats } from "./types";
+
+/** PlanLimits field capping each resource */
+export const PLAN_LIMIT_KEYS: Record<PlanLimitedResource, keyof PlanLimits> = {
+  links: "maxLinks",
+  tags: "maxTags",
+  domains: "maxCustomDomains",
+  bioPages: "maxBioPages",
+  apiKeys: "maxApiKeys",
+};
+
+/** Combine a workspace's plan limits and element counts into used/limit/remaining per resource */
+export function buildUsageReport(billing: Pick<BillingInfo, "plan" | "limits">, stats: WorkspaceStats): UsageReport {
+  const resources = {} as UsageReport["resources"];
+  for (const resource of Object.keys(PLAN_LIMIT_KEYS) as PlanLimitedResource[]) {
+    const used = stats[resource] ?? 0;
+    const limit = billing.limits[PLAN_LIMIT_KEYS[resource]] as number | null;
+    resources[resource] = { used, limit, remaining: limit === null ? null : Math.max(0, limit - used) };
+  }
+  return { plan: billing.plan, resources };
+}
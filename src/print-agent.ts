@@ -0,0 +1,262 @@
+import { HoulaClient } from "./client";
+import { sleep } from "./retry";
+import { PrintJob, PrintJobStatus, PrintJobType, PrintLabelFormat } from "./types";
+
+/** A print job with its payload decoded, ready for a printer */
+export interface PrintDocument {
+  job: PrintJob;
+  format: PrintLabelFormat;
+  data: Uint8Array;
+  /** MIME type of the data */
+  contentType: string;
+  /** File extension, without the dot */
+  extension: string;
+}
+
+/** Sends a document to a printer. Resolving means the printer accepted it; throwing triggers a retry. */
+export type PrintSink = (document: PrintDocument) => Promise<void>;
+
+const FORMATS: Record<PrintLabelFormat, { contentType: string; extension: string }> = {
+  [PrintLabelFormat.ZPL]: { contentType: "application/vnd.zebra-zpl", extension: "zpl" },
+  [PrintLabelFormat.ESCPOS]: { contentType: "application/vnd.escpos", extension: "bin" },
+  [PrintLabelFormat.PDF]: { contentType: "application/pdf", extension: "pdf" },
+};
+
+/**
+ * Decode the base64 payload of a job.
+ * @throws Error when the job has no payload, the payload is not valid base64,
+ * the format is unknown, or a PDF payload does not start with `%PDF`
+ */
+export function decodePrintJob(job: PrintJob): PrintDocument {
+  const format = FORMATS[job.format];
+  if (!format) throw new Error(`Hou.la SDK: unsupported print format "${job.format}"`);
+  if (!job.payload) throw new Error(`Hou.la SDK: print job ${job.id} has no payload`);
+
+  let binary: string;
+  try {
+    binary = atob(job.payload.replace(/\s+/g, ""));
+  } catch {
+    throw new Error(`Hou.la SDK: print job ${job.id} has an invalid base64 payload`);
+  }
+  const data = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  if (job.format === PrintLabelFormat.PDF && binary.slice(0, 4) !== "%PDF") {
+    throw new Error(`Hou.la SDK: print job ${job.id} payload is not a PDF`);
+  }
+  return { job, format: job.format, data, ...format };
+}
+
+/** The subset of Node.js `net.Socket` used by tcpPrintSink */
+export interface PrintSocket {
+  setTimeout(timeout: number, callback: () => void): unknown;
+  once(event: "error", listener: (error: Error) => void): unknown;
+  end(data: Uint8Array, callback: () => void): unknown;
+  destroy(error?: Error): unknown;
+}
+
+/** The subset of Node.js `net` used by tcpPrintSink */
+export interface PrintNetModule {
+  connect(port: number, host: string): PrintSocket;
+}
+
+export interface TcpPrintSinkOptions {
+  host: string;
+  /** Raw printing port (default: 9100, aka JetDirect / AppSocket) */
+  port?: number;
+  /** Socket inactivity timeout in milliseconds (default: 10000) */
+  timeout?: number;
+}
+
+/**
+ * Send documents to a network printer over raw TCP. ZPL and ESC/POS are understood by
+ * label and receipt printers; PDF needs a printer with a PDF interpreter.
+ * @param net - Node.js `net` module (`import net from "node:net"`)
+ */
+export function tcpPrintSink(net: PrintNetModule, options: TcpPrintSinkOptions): PrintSink {
+  const { host, port = 9100, timeout = 10000 } = options;
+  return (document) =>
+    new Promise<void>((resolve, reject) => {
+      const socket = net.connect(port, host);
+      socket.once("error", reject);
+      socket.setTimeout(timeout, () => socket.destroy(new Error(`Hou.la SDK: printer ${host}:${port} timed out`)));
+      socket.end(document.data, resolve);
+    });
+}
+
+/** The subset of Node.js `fs/promises` used by directoryPrintSink */
+export interface PrintFsModule {
+  writeFile(path: string, data: Uint8Array): Promise<void>;
+}
+
+/**
+ * Write each document to `<directory>/<type>-<job id>.<extension>`, e.g. for a CUPS hot folder
+ * or a spooler watching the directory.
+ * @param fs - Node.js `fs/promises` module (`import fs from "node:fs/promises"`)
+ */
+export function directoryPrintSink(fs: PrintFsModule, directory: string): PrintSink {
+  const base = directory.replace(/[\\/]+$/, "");
+  return (document) => {
+    const { job, extension } = document;
+    return fs.writeFile(`${base}/${job.type}-${job.id}.${extension}`, document.data);
+  };
+}
+
+export interface PrintAgentOptions {
+  /** Where documents are sent: tcpPrintSink, directoryPrintSink or a custom callback */
+  sink: PrintSink;
+  /** Only handle these job types (default: all) */
+  types?: PrintJobType[];
+  /** Delay between polls for pending jobs, in milliseconds (default: 5000). Polling is fixed-interval, not long-polling. */
+  pollInterval?: number;
+  /** Upper bound of the poll delay while the API is failing, in milliseconds (default: 60000) */
+  maxPollInterval?: number;
+  /** Sink attempts per job before it is reported FAILED (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the second sink attempt, doubled on each further attempt (default: 1000) */
+  retryDelay?: number;
+  /** Stops the agent when aborted */
+  signal?: AbortSignal;
+  /** Called with each job once it is printed or failed */
+  onJob?: (job: PrintJob) => void;
+  /**
+   * Called with failed sink attempts, poll errors, and jobs that printed but could not be
+   * marked PRINTED. Errors never stop the agent.
+   */
+  onError?: (error: unknown, job?: PrintJob) => void;
+}
+
+/**
+ * Headless print station: polls the pending jobs of the workspace at a fixed interval, decodes
+ * them and sends them to a sink, reporting SENT, then PRINTED or FAILED.
+ * @example
+ * import net from "node:net";
+ *
+ * const agent = new PrintAgent(houla, {
+ *   sink: tcpPrintSink(net, { host: "192.168.1.50" }),
+ *   types: [PrintJobType.SHIPPING_LABEL, PrintJobType.PRODUCT_LABEL],
+ * });
+ * await agent.start(); // until agent.stop()
+ */
+export class PrintAgent {
+  private controller: AbortController | null = null;
+
+  constructor(
+    private readonly client: HoulaClient,
+    private readonly options: PrintAgentOptions,
+  ) {}
+
+  get running(): boolean {
+    return this.controller !== null;
+  }
+
+  /**
+   * Poll and print until stop() is called or the signal aborts.
+   * Resolves once the job in progress, if any, is finished.
+   */
+  async start(): Promise<void> {
+    if (this.controller) throw new Error("Hou.la SDK: PrintAgent is already running");
+    const controller = new AbortController();
+    this.controller = controller;
+    const stop = () => controller.abort();
+    this.options.signal?.addEventListener("abort", stop);
+    if (this.options.signal?.aborted) stop();
+
+    const pollInterval = this.options.pollInterval ?? 5000;
+    let failures = 0;
+    try {
+      while (!controller.signal.aborted) {
+        try {
+          await this.poll(controller.signal);
+          failures = 0;
+        } catch (error) {
+          // Requests cancelled by stop() are not failures
+          if (controller.signal.aborted) break;
+          failures++;
+          this.options.onError?.(error);
+        }
+        const backoff = Math.min(pollInterval * 2 ** failures, this.options.maxPollInterval ?? 60000);
+        await sleep(failures ? backoff : pollInterval, controller.signal);
+      }
+    } finally {
+      this.options.signal?.removeEventListener("abort", stop);
+      this.controller = null;
+    }
+  }
+
+  stop(): void {
+    this.controller?.abort();
+  }
+
+  /** Fetch the pending jobs once and process them in order. Returns the processed jobs. */
+  async poll(signal?: AbortSignal): Promise<PrintJob[]> {
+    const types = this.options.types;
+    const jobs = await this.client.listPrintJobs({ status: PrintJobStatus.PENDING }, { signal });
+    const processed: PrintJob[] = [];
+    for (const job of jobs) {
+      if (signal?.aborted) break;
+      if (types && !types.includes(job.type)) continue;
+      processed.push(await this.processJob(job, signal));
+    }
+    return processed;
+  }
+
+  /**
+   * Print one job: report it SENT, try the sink up to maxAttempts times with exponential
+   * backoff, then report it PRINTED or FAILED. Undecodable jobs fail without reaching the sink,
+   * and a job interrupted by `signal` between sink attempts is reported FAILED.
+   * When the sink succeeded but PRINTED cannot be reported after maxAttempts, the error goes to
+   * onError with the job, which is returned as SENT.
+   * @returns The job as updated by the API
+   */
+  async processJob(job: PrintJob, signal?: AbortSignal): Promise<PrintJob> {
+    let document: PrintDocument;
+    try {
+      document = decodePrintJob(job);
+    } catch (error) {
+      return this.fail(job, error);
+    }
+
+    const sent = await this.client.ackPrintJob(job.id, { status: PrintJobStatus.SENT }, { signal });
+    const maxAttempts = this.options.maxAttempts ?? 3;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.options.sink(document);
+        break;
+      } catch (error) {
+        if (attempt >= maxAttempts) return this.fail(job, error);
+        this.options.onError?.(error, job);
+        await this.backoff(attempt, signal);
+        // Without a report the job would stay SENT, and SENT jobs are never polled again
+        if (signal?.aborted) return this.fail(job, new Error("Hou.la SDK: print agent stopped"));
+      }
+    }
+
+    // The document is out: retry the report rather than printing it again
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const printed = await this.client.markPrintJobPrinted(job.id, { signal });
+        this.options.onJob?.(printed);
+        return printed;
+      } catch (error) {
+        if (attempt >= maxAttempts || signal?.aborted) {
+          this.options.onError?.(error, sent);
+          return sent;
+        }
+        await this.backoff(attempt, signal);
+      }
+    }
+  }
+
+  private backoff(attempt: number, signal?: AbortSignal): Promise<void> {
+    return sleep((this.options.retryDelay ?? 1000) * 2 ** (attempt - 1), signal);
+  }
+
+  private async fail(job: PrintJob, error: unknown): Promise<PrintJob> {
+    this.options.onError?.(error, job);
+    const failed = await this.client.ackPrintJob(job.id, {
+      status: PrintJobStatus.FAILED,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    this.options.onJob?.(failed);
+    return failed;
+  }
+}
@@ -0,0 +1,139 @@
+import { sleep } from "./retry";
+
+/** Rate-limit headers reported by the API */
+export interface RateLimitHeaders {
+  /** X-RateLimit-Limit: requests allowed in the current window */
+  limit?: number;
+  /** X-RateLimit-Remaining: requests left in the current window */
+  remaining?: number;
+  /** X-RateLimit-Reset: window reset, as sent by the server */
+  reset?: number;
+}
+
+/** Snapshot of the client-side limiter and the last server-reported limits */
+export interface RateLimitStatus {
+  /** Client-side budget in requests per minute (undefined when the limiter is off or not seeded yet) */
+  requestsPerMinute?: number;
+  /** Requests that can be sent right now without queuing */
+  remaining?: number;
+  /** Requests currently waiting for a token */
+  queued: number;
+  /** Rate-limit headers from the last response, if the API sent any */
+  lastResponse?: RateLimitHeaders;
+}
+
+/** A caller's place in the queue */
+interface Ticket {
+  granted: boolean;
+  aborted: boolean;
+}
+
+/**
+ * FIFO token bucket. Tokens refill continuously at requestsPerMinute / 60 per second
+ * up to `burst`; callers that find the bucket empty wait instead of failing.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+  private waiting = 0;
+
+  constructor(
+    private requestsPerMinute: number,
+    private burst = requestsPerMinute,
+  ) {
+    this.tokens = burst;
+  }
+
+  get rate(): number {
+    return this.requestsPerMinute;
+  }
+
+  /** Tokens available right now */
+  get remaining(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  get queued(): number {
+    return this.waiting;
+  }
+
+  /**
+   * Wait for a token. Resolves in call order.
+   * Aborting `signal` leaves the queue without consuming a token and rejects with its reason.
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    this.waiting++;
+    const ticket: Ticket = { granted: false, aborted: false };
+    const turn = this.queue.then(() => this.take(ticket));
+    this.queue = turn;
+    if (!signal) return turn;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        if (ticket.granted) return;
+        ticket.aborted = true;
+        this.waiting--;
+        reject(signal.reason);
+      };
+      signal.addEventListener("abort", onAbort);
+      turn.then(() => {
+        signal.removeEventListener("abort", onAbort);
+        if (ticket.granted) resolve();
+      });
+    });
+  }
+
+  /** Change the refill rate; tokens already in the bucket are kept (capped by the new burst) */
+  setRate(requestsPerMinute: number, burst = requestsPerMinute): void {
+    this.refill();
+    this.requestsPerMinute = requestsPerMinute;
+    this.burst = burst;
+    this.tokens = Math.min(this.tokens, burst);
+  }
+
+  /** Align with the server: never assume more budget than the API reports */
+  sync(serverRemaining: number): void {
+    this.refill();
+    this.tokens = Math.min(this.tokens, serverRemaining);
+  }
+
+  private async take(ticket: Ticket): Promise<void> {
+    this.refill();
+    while (this.tokens < 1) {
+      if (ticket.aborted) return;
+      await sleep(((1 - this.tokens) * 60000) / this.requestsPerMinute);
+      this.refill();
+    }
+    if (ticket.aborted) return;
+    this.tokens -= 1;
+    this.waiting--;
+    ticket.granted = true;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.updatedAt) * this.requestsPerMinute) / 60000);
+    this.updatedAt = now;
+  }
+}
+
+/** Read X-RateLimit-* headers. Returns undefined when none are present. */
+export function parseRateLimitHeaders(headers: Headers | undefined): RateLimitHeaders | undefined {
+  if (!headers) return undefined;
+  const read = (name: string) => {
+    const value = headers.get(name);
+    return value === null || value === "" || Number.isNaN(Number(value)) ? undefined : Number(value);
+  };
+  const result: RateLimitHeaders = {
+    limit: read("x-ratelimit-limit"),
+    remaining: read("x-ratelimit-remaining"),
+    reset: read("x-ratelimit-reset"),
+  };
+  if (result.limit === undefined && result.remaining === undefined && result.reset === undefined) {
+    return undefined;
+  }
+  return result;
+}
@@ -0,0 +1,45 @@
+import { RetryPolicy } from "./config";
+import { HoulaError, HoulaNetworkError, HoulaTimeoutError } from "./errors";
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+/**
+ * Whether a request may be replayed safely.
+ * POST/PATCH are only considered safe when they carry an idempotency key.
+ */
+export function isRetryableRequest(method: string, hasIdempotencyKey: boolean, policy: RetryPolicy): boolean {
+  return IDEMPOTENT_METHODS.includes(method) || hasIdempotencyKey || policy.retryNonIdempotent;
+}
+
+/** Whether an error is transient according to the retry policy */
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+  if (error instanceof HoulaNetworkError || error instanceof HoulaTimeoutError) return true;
+  return error instanceof HoulaError && error.status !== undefined && policy.retryableStatuses.includes(error.status);
+}
+
+/**
+ * Delay before the next attempt: the server's Retry-After when provided,
+ * otherwise exponential backoff. Both are capped by maxDelayMs.
+ * @param attempt - 1-based number of the attempt that just failed
+ */
+export function getRetryDelay(error: unknown, attempt: number, policy: RetryPolicy): number {
+  const retryAfterMs = error instanceof HoulaError ? error.retryAfterMs : undefined;
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, policy.maxDelayMs);
+
+  const delay = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  return policy.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
+
+/** Resolve after ms, or early when the signal aborts */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
+  });
+}
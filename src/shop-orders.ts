@@ -0,0 +1,38 @@
+import { ShopOrder, ShopOrderStatus } from "./types";
+
+/** Statuses a shop order can move to from each status */
+export const SHOP_ORDER_TRANSITIONS: Readonly<Record<ShopOrderStatus, readonly ShopOrderStatus[]>> = {
+  [ShopOrderStatus.PENDING]: [ShopOrderStatus.PAID, ShopOrderStatus.CANCELLED],
+  [ShopOrderStatus.PAID]: [
+    ShopOrderStatus.PROCESSING,
+    ShopOrderStatus.SHIPPED,
+    ShopOrderStatus.DELIVERED,
+    ShopOrderStatus.CANCELLED,
+    ShopOrderStatus.REFUNDED,
+  ],
+  [ShopOrderStatus.PROCESSING]: [
+    ShopOrderStatus.SHIPPED,
+    ShopOrderStatus.DELIVERED,
+    ShopOrderStatus.CANCELLED,
+    ShopOrderStatus.REFUNDED,
+  ],
+  [ShopOrderStatus.SHIPPED]: [ShopOrderStatus.DELIVERED, ShopOrderStatus.REFUNDED],
+  [ShopOrderStatus.DELIVERED]: [ShopOrderStatus.REFUNDED],
+  [ShopOrderStatus.CANCELLED]: [],
+  [ShopOrderStatus.REFUNDED]: [],
+};
+
+/**
+ * Whether an order may move to `to`.
+ * Orders that are not shipped can only be marked delivered when they use local pickup.
+ */
+export function canTransitionShopOrder(
+  order: Pick<ShopOrder, "status" | "isLocalPickup">,
+  to: ShopOrderStatus,
+): boolean {
+  if (!SHOP_ORDER_TRANSITIONS[order.status]?.includes(to)) return false;
+  if (to === ShopOrderStatus.DELIVERED && order.status !== ShopOrderStatus.SHIPPED) {
+    return order.isLocalPickup === true;
+  }
+  return true;
+}
@@ -0,0 +1,71 @@
+/** One message of a text/event-stream response */
+export interface ServerSentEvent {
+  /** Event name (default: "message") */
+  event: string;
+  /** Data lines, joined with "\n" */
+  data: string;
+  /** Last event ID, to resume with the Last-Event-ID header */
+  id?: string;
+  /** Latest reconnection delay requested by the server, in milliseconds */
+  retry?: number;
+}
+
+/**
+ * Parse a text/event-stream body into messages, following the WHATWG EventSource rules
+ * (comments, multi-line data, CRLF line endings). Breaking out of the loop, or aborting the signal,
+ * cancels the stream.
+ */
+export async function* parseServerSentEvents(
+  stream: ReadableStream<Uint8Array>,
+  signal?: AbortSignal,
+): AsyncGenerator<ServerSentEvent> {
+  const reader = stream.getReader();
+  const cancel = () => reader.cancel(signal?.reason).catch(() => undefined);
+  signal?.addEventListener("abort", cancel);
+  if (signal?.aborted) cancel();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event = "";
+  let data: string[] = [];
+  let id: string | undefined;
+  let retry: number | undefined;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      // A trailing "\r" may be the first half of a "\r\n" split across chunks
+      const held = !done && buffer.endsWith("\r") ? "\r" : "";
+      const lines = (held ? buffer.slice(0, -1) : buffer).replace(/\r\n?/g, "\n").split("\n");
+      // The last item is an unterminated line; at the end of the stream it is discarded
+      buffer = lines.pop()! + held;
+
+      for (const line of lines) {
+        if (line === "") {
+          if (data.length > 0) {
+            yield { event: event || "message", data: data.join("\n"), id, retry };
+          }
+          event = "";
+          data = [];
+          continue;
+        }
+        if (line.startsWith(":")) continue;
+
+        const colon = line.indexOf(":");
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? "" : line.slice(colon + 1);
+        if (value.startsWith(" ")) value = value.slice(1);
+
+        if (field === "event") event = value;
+        else if (field === "data") data.push(value);
+        else if (field === "id" && !value.includes("\0")) id = value;
+        else if (field === "retry" && /^\d+$/.test(value)) retry = Number(value);
+      }
+
+      if (done) return;
+    }
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+    await reader.cancel().catch(() => undefined);
+  }
+}
@@ -223,6 +223,37 @@ export interface UpdateLinkDto {
   deepLinkFallbackUrl?: string | null;
 }
 
+/** Sortable link fields */
+export type LinkSortField = "createdAt" | "updatedAt" | "lastCall" | "hitsCount" | "title" | "key";
+
+/** Filters, search and sorting for listing links */
+export interface ListLinksOptions {
+  /** Page number (default: 1) */
+  page?: number;
+  /** Items per page (max 100, default: 20) */
+  limit?: number;
+  /** Only links having at least one of these tag IDs */
+  tagIds?: string[];
+  /** Filter by link status */
+  status?: LinkStatus;
+  /** Filter by destination health */
+  healthStatus?: LinkHealthStatus;
+  /** Filter by custom domain ID */
+  customDomainId?: string;
+  /** Filter by creation source */
+  createdByType?: LinkCreatedType;
+  /** Created on or after this date (ISO 8601) */
+  createdFrom?: string;
+  /** Created on or before this date (ISO 8601) */
+  createdTo?: string;
+  /** Free-text search over url, title and key */
+  search?: string;
+  /** Sort field (default: createdAt) */
+  sortBy?: LinkSortField;
+  /** Sort direction (default: desc) */
+  sortOrder?: "asc" | "desc";
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
   total: number;
@@ -434,6 +465,127 @@ export interface WebhookLog {
   createdAt: string;
 }
 
+// ─── Webhook Payloads ───
+
+/** Visitor context attached to click and visit events */
+export interface WebhookVisitorData {
+  /** ISO country code */
+  country?: string;
+  /** City (omitted when the webhook has excludeGeoCity) */
+  city?: string;
+  device?: string;
+  os?: string;
+  browser?: string;
+  language?: string;
+  referer?: string;
+  /** Visitor IP (anonymized when the webhook has anonymizeIp) */
+  ip?: string;
+  isBot?: boolean;
+}
+
+/** Minimal link reference carried by link events */
+export interface WebhookLinkRef {
+  linkId: string;
+  key: string;
+  url: string;
+  shortUrl?: string;
+}
+
+export interface LinkClickedEventData extends WebhookLinkRef, WebhookVisitorData {
+  /** Whether the click came from the QR code (flash) URL */
+  isFlash?: boolean;
+  clickedAt: string;
+}
+
+export interface LinkCreatedEventData {
+  link: Link;
+}
+
+export interface LinkUpdatedEventData {
+  link: Link;
+  /** Names of the fields that changed */
+  changes?: string[];
+}
+
+export interface LinkDeletedEventData {
+  linkId: string;
+  key: string;
+  deletedAt: string;
+}
+
+export interface LinkHealthChangedEventData extends WebhookLinkRef {
+  previousStatus: LinkHealthStatus;
+  status: LinkHealthStatus;
+}
+
+export interface LinkSafetyChangedEventData extends WebhookLinkRef {
+  previousStatus: SafetyStatus;
+  status: SafetyStatus;
+}
+
+export interface LinkExpiredEventData extends WebhookLinkRef {
+  /** What triggered the expiration */
+  reason: "ephemeral" | "date" | "max_hits";
+  expiredAt: string;
+}
+
+export interface LinkPasswordAttemptEventData extends WebhookLinkRef, WebhookVisitorData {
+  success: boolean;
+  attemptedAt: string;
+}
+
+export interface ProfileVisitedEventData extends WebhookVisitorData {
+  bioPageId: string;
+  username: string;
+  visitedAt: string;
+}
+
+export interface ProfileLinkClickedEventData extends WebhookVisitorData {
+  bioPageId: string;
+  username: string;
+  /** Profile link (dedicated or existing) that was clicked */
+  profileLinkId: string;
+  title?: string;
+  url: string;
+  clickedAt: string;
+}
+
+/** Event name → `data` type */
+export interface WebhookEventDataMap {
+  [WebhookEvent.LINK_CLICKED]: LinkClickedEventData;
+  [WebhookEvent.LINK_CREATED]: LinkCreatedEventData;
+  [WebhookEvent.LINK_UPDATED]: LinkUpdatedEventData;
+  [WebhookEvent.LINK_DELETED]: LinkDeletedEventData;
+  [WebhookEvent.LINK_HEALTH_CHANGED]: LinkHealthChangedEventData;
+  [WebhookEvent.LINK_SAFETY_CHANGED]: LinkSafetyChangedEventData;
+  [WebhookEvent.LINK_EXPIRED]: LinkExpiredEventData;
+  [WebhookEvent.LINK_PASSWORD_ATTEMPT]: LinkPasswordAttemptEventData;
+  [WebhookEvent.PROFILE_VISITED]: ProfileVisitedEventData;
+  [WebhookEvent.PROFILE_LINK_CLICKED]: ProfileLinkClickedEventData;
+}
+
+/** A single webhook event, discriminated on `event` */
+export type WebhookEventPayload<E extends WebhookEvent = WebhookEvent> = {
+  [K in E]: {
+    /** Unique event ID (use it to deduplicate deliveries) */
+    id: string;
+    event: K;
+    /** Webhook that delivered the event */
+    webhookId?: string;
+    createdAt: string;
+    data: WebhookEventDataMap[K];
+  };
+}[E];
+
+/** Delivery grouping several events (webhooks with batchSize > 1) */
+export interface WebhookBatchPayload {
+  /** Events in the batch, oldest first */
+  events: WebhookEventPayload[];
+  /** Number of events in the batch */
+  eventCount: number;
+  webhookId?: string;
+}
+
 export interface WebhookStats {
   totalWebhooks: number;
   activeWebhooks: number;
@@ -1000,8 +1152,26 @@ export interface UpgradeWorkspaceResult {
   personalWorkspace: Workspace;
 }
 
+/** Element types that can be migrated between workspaces */
+export type MigrationResource = Exclude<keyof MigrateToWorkspaceDto, "sourceWorkspaceId">;
+
 /** Migration report - number of elements migrated per type */
-export type MigrationReport = Record<string, number>;
+export type MigrationReport = Record<MigrationResource, number>;
+
+/** An element that a migration would move */
+export interface MigrationPreviewItem {
+  id: string;
+  /** Display label: link key, tag/webhook/preset/template name, domain hostname or bio page username */
+  name: string;
+}
+
+/** Dry-run result of a migration: nothing is moved */
+export interface MigrationPreview {
+  /** Elements that would move, per type */
+  items: Record<MigrationResource, MigrationPreviewItem[]>;
+  /** Number of elements that would move, per type */
+  counts: MigrationReport;
+}
 
 /** Element counts per type in a workspace */
 export type WorkspaceStats = Record<string, number>;
@@ -1060,6 +1230,24 @@ export interface PortalResult {
   url: string;
 }
 
+/** Resources capped by PlanLimits */
+export type PlanLimitedResource = "links" | "tags" | "domains" | "bioPages" | "apiKeys";
+
+/** Usage of one plan-limited resource */
+export interface ResourceUsage {
+  used: number;
+  /** Plan limit (null = unlimited) */
+  limit: number | null;
+  /** Elements that can still be created (null = unlimited) */
+  remaining: number | null;
+}
+
+/** Current usage against the plan limits of a workspace */
+export interface UsageReport {
+  plan: WorkspacePlan;
+  resources: Record<PlanLimitedResource, ResourceUsage>;
+}
+
 // ═══════════════════════════════════════════════════════════════
 // Pay Links (Stripe Connect marketplace)
 // ═══════════════════════════════════════════════════════════════
@@ -1327,6 +1515,18 @@ export interface UpdatePayLinkDto {
   status?: PayLinkStatus;
 }
 
+/** Filters for listing PayLink orders */
+export interface ListPayLinkOrdersOptions {
+  /** Page number (default: 1) */
+  page?: number;
+  /** Items per page (default: 20) */
+  limit?: number;
+  /** Only orders with this status */
+  status?: PayLinkOrderStatus;
+  /** Only orders of this PayLink */
+  payLinkId?: string;
+}
+
 export interface CreatePayLinkCheckoutDto {
   /** PayLink ID to purchase */
   payLinkId: string;
@@ -1394,6 +1594,16 @@ export interface PayLinkOrderStatusResult {
   downloadUrl?: string;
 }
 
+/** Options for waitForPayLinkOrder */
+export interface WaitForPayLinkOrderOptions {
+  /** Statuses that end the wait (default: paid, fulfilled) */
+  until?: PayLinkOrderStatus[];
+  /** Maximum wait in milliseconds (default: 300000) */
+  timeout?: number;
+  /** Delay between two status checks in milliseconds (default: 2000) */
+  interval?: number;
+}
+
 // ═══════════════════════════════════════════════════════════════
 // IMPORT
 // ═══════════════════════════════════════════════════════════════
@@ -1463,6 +1673,19 @@ export interface CreateImportDto {
   preserveCustomSlugs?: boolean;
 }
 
+/** DTO to start a CSV import from links parsed client-side */
+export interface CreateCsvImportDto {
+  source: ImportSource.CSV;
+  /** Validated links to import */
+  links: CreateLinkDto[];
+  /** Skip URLs already present in the workspace (default: true) */
+  skipDuplicates?: boolean;
+  /** Keep the `key` of each link as custom slug (default: false) */
+  preserveCustomSlugs?: boolean;
+  /** Tags added to every imported link */
+  tagIds?: string[];
+}
+
 /** Real-time import progress (SSE) */
 export interface ImportProgress {
   /** Job ID */
@@ -1483,6 +1706,16 @@ export interface ImportProgress {
   failureReason: string | null;
 }
 
+/** Options for streamImportProgress */
+export interface StreamImportProgressOptions {
+  /** Reconnection attempts after the event stream drops, before falling back to polling (default: 3) */
+  maxReconnects?: number;
+  /** Delay before reconnecting in milliseconds, unless the server sends `retry:` (default: 1000) */
+  reconnectDelay?: number;
+  /** Delay between two getImportJob calls once polling (default: 2000) */
+  pollInterval?: number;
+}
+
 // ─── Shop: Products ───
 
 /** Product source (how the product was created) */
@@ -1700,6 +1933,40 @@ export interface CreateShopProductDto {
 /** DTO to update a shop product (all fields optional) */
 export interface UpdateShopProductDto extends Partial<CreateShopProductDto> {}
 
+/** Filters for listing shop products */
+export interface ListShopProductsOptions {
+  /** Page number (default: 1) */
+  page?: number;
+  /** Items per page (default: 20, max: 100) */
+  limit?: number;
+  status?: ShopProductStatus;
+  source?: ShopProductSource;
+  productType?: ShopProductType;
+  /** Products in any of these collections */
+  collectionIds?: string[];
+  /** Search in title and SKU */
+  search?: string;
+}
+
+/** DTO to add a variant to a product */
+export interface CreateShopProductVariantDto extends Omit<ShopProductVariant, "id" | "isActive"> {
+  /** Whether the variant is purchasable (default: true) */
+  isActive?: boolean;
+}
+
+/** DTO to update a variant (all fields optional) */
+export interface UpdateShopProductVariantDto extends Partial<CreateShopProductVariantDto> {}
+
+/** Relative stock change of a product or one of its variants */
+export interface AdjustShopStockDto {
+  /** Units to add (positive) or remove (negative) */
+  delta: number;
+  /** Variant to adjust; omit for the product stock */
+  variantId?: string;
+  /** Free-form reason kept in the stock history (e.g. "inventory", "damaged") */
+  reason?: string;
+}
+
 // ─── Shop: Orders ───
 
 /** Order status */
@@ -1802,6 +2069,28 @@ export interface ShopOrder {
   updatedAt: string;
 }
 
+/** Filters for listing shop orders */
+export interface ListShopOrdersOptions {
+  /** Page number (default: 1) */
+  page?: number;
+  /** Items per page (default: 20, max: 100) */
+  limit?: number;
+  status?: ShopOrderStatus;
+  /** Orders created on or after this date (ISO 8601) */
+  from?: string;
+  /** Orders created on or before this date (ISO 8601) */
+  to?: string;
+  /** Search in order ID, buyer email and buyer name */
+  search?: string;
+}
+
+/** Shipment details for markShopOrderShipped */
+export interface ShipShopOrderDto {
+  carrier?: string;
+  trackingNumber?: string;
+  trackingUrl?: string;
+}
+
 // ═══════════════════════════════════════════════════════
 // Print
 // ═══════════════════════════════════════════════════════
@@ -1909,6 +2198,19 @@ export interface UpdatePrintConfigDto {
   brandName?: string | null;
 }
 
+/** Status report from a print station */
+export interface AckPrintJobDto {
+  status: PrintJobStatus.SENT | PrintJobStatus.PRINTED | PrintJobStatus.FAILED;
+  /** Failure reason, when status is FAILED */
+  error?: string;
+}
+
+/** Filters for listPrintJobs */
+export interface ListPrintJobsOptions {
+  status?: PrintJobStatus;
+  type?: PrintJobType;
+}
+
 // ═══════════════════════════════════════════
 // Statistics / Hits
 // ═══════════════════════════════════════════
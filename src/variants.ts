@@ -0,0 +1,142 @@
+import { ShopProductOption, ShopProductVariant } from "./types";
+
+/** Option name → selected value of one variant */
+export type VariantOptions = Record<string, string>;
+
+/** A fixed value, or a value computed from the variant's options and position in the matrix */
+export type VariantValue<T> = T | ((options: VariantOptions, index: number) => T);
+
+/** How new variants are filled in */
+export interface VariantTemplate {
+  priceCents: VariantValue<number>;
+  salePriceCents?: VariantValue<number | undefined>;
+  stockQuantity?: VariantValue<number | undefined>;
+  /**
+   * SKU, or a pattern where `{Option name}` is replaced by the option value and `{index}` by
+   * the 1-based position (e.g. "TS-{Size}-{Color}"). Spaces in values become dashes.
+   */
+  sku?: VariantValue<string | undefined>;
+  imageUrl?: VariantValue<string | undefined>;
+  /** Default: true */
+  isActive?: boolean;
+  /** ID generator for new variants (default: crypto.randomUUID) */
+  generateId?: () => string;
+}
+
+/** Outcome of reconcileVariants */
+export interface VariantDiff {
+  /** Full variant list to send as `variants` in updateShopProduct */
+  variants: ShopProductVariant[];
+  /** Variants created from the template */
+  added: ShopProductVariant[];
+  /** Existing variants kept (IDs, externalVariantId, price and stock preserved), with updated options */
+  kept: ShopProductVariant[];
+  /** Existing variants with no matching combination left */
+  removed: ShopProductVariant[];
+}
+
+/**
+ * Every combination of option values, in option order (first option varies slowest).
+ * A product without options has no combinations, not a single empty one.
+ */
+export function expandVariantOptions(options: ShopProductOption[]): VariantOptions[] {
+  if (options.length === 0) return [];
+  return options.reduce<VariantOptions[]>(
+    (combinations, option) =>
+      combinations.flatMap((combination) => option.values.map((value) => ({ ...combination, [option.name]: value }))),
+    [{}],
+  );
+}
+
+function resolve<T>(value: VariantValue<T>, options: VariantOptions, index: number): T {
+  return typeof value === "function" ? (value as (options: VariantOptions, index: number) => T)(options, index) : value;
+}
+
+function createVariant(options: VariantOptions, index: number, template: VariantTemplate): ShopProductVariant {
+  const sku = resolve(template.sku, options, index);
+  const variant: ShopProductVariant = {
+    id: (template.generateId ?? (() => globalThis.crypto.randomUUID()))(),
+    options,
+    priceCents: resolve(template.priceCents, options, index),
+    isActive: template.isActive ?? true,
+  };
+  const salePriceCents = resolve(template.salePriceCents, options, index);
+  const stockQuantity = resolve(template.stockQuantity, options, index);
+  const imageUrl = resolve(template.imageUrl, options, index);
+  if (salePriceCents !== undefined) variant.salePriceCents = salePriceCents;
+  if (stockQuantity !== undefined) variant.stockQuantity = stockQuantity;
+  if (imageUrl !== undefined) variant.imageUrl = imageUrl;
+  if (sku !== undefined) {
+    variant.sku = sku.replace(/\{([^}]+)\}/g, (match, name: string) =>
+      name === "index" ? String(index + 1) : (options[name]?.replace(/\s+/g, "-") ?? match),
+    );
+  }
+  return variant;
+}
+
+/**
+ * Build the full Cartesian set of variants for a product's options.
+ * @example
+ * const variants = buildVariantMatrix(
+ *   [{ name: "Size", values: ["S", "M"] }, { name: "Color", values: ["Red", "Blue"] }],
+ *   { priceCents: (o) => (o.Size === "M" ? 2700 : 2500), sku: "TS-{Size}-{Color}", stockQuantity: 10 },
+ * );
+ */
+export function buildVariantMatrix(options: ShopProductOption[], template: VariantTemplate): ShopProductVariant[] {
+  return expandVariantOptions(options).map((combination, index) => createVariant(combination, index, template));
+}
+
+function sameOptions(a: VariantOptions, b: VariantOptions): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+}
+
+/** Options agree on every shared option name, and share at least one */
+function compatibleOptions(a: VariantOptions, b: VariantOptions): boolean {
+  const shared = Object.keys(a).filter((key) => key in b);
+  return shared.length > 0 && shared.every((key) => a[key] === b[key]);
+}
+
+/**
+ * Reconcile existing variants with changed options, without orphaning variant IDs.
+ * An existing variant is kept when its options match a new combination exactly; otherwise,
+ * when an option axis was added or removed, it is carried over to the first combination that
+ * agrees on the remaining axes (keeping its ID, externalVariantId, price, SKU and stock).
+ * Only combinations with no existing counterpart are created from the template.
+ * Renamed option values cannot be detected: they show up as removed + added.
+ * With no options left, every existing variant is reported removed and none is created.
+ */
+export function reconcileVariants(
+  existing: ShopProductVariant[],
+  options: ShopProductOption[],
+  template: VariantTemplate,
+): VariantDiff {
+  const combinations = expandVariantOptions(options);
+  const matches = new Array<ShopProductVariant | undefined>(combinations.length);
+  const unmatched = new Set(existing);
+
+  combinations.forEach((combination, index) => {
+    const exact = [...unmatched].find((variant) => sameOptions(variant.options, combination));
+    if (exact) {
+      matches[index] = exact;
+      unmatched.delete(exact);
+    }
+  });
+  combinations.forEach((combination, index) => {
+    if (matches[index]) return;
+    const compatible = [...unmatched].find((variant) => compatibleOptions(variant.options, combination));
+    if (compatible) {
+      matches[index] = compatible;
+      unmatched.delete(compatible);
+    }
+  });
+
+  const diff: VariantDiff = { variants: [], added: [], kept: [], removed: [...unmatched] };
+  combinations.forEach((combination, index) => {
+    const match = matches[index];
+    const variant = match ? { ...match, options: combination } : createVariant(combination, index, template);
+    (match ? diff.kept : diff.added).push(variant);
+    diff.variants.push(variant);
+  });
+  return diff;
+}
@@ -0,0 +1,183 @@
+import { HoulaWebhookError } from "./errors";
+import { WebhookEvent } from "./types";
+import {
+  VerifyWebhookOptions,
+  WebhookDispatcher,
+  WebhookHandler,
+  WebhookHeaders,
+  WebhookRawBody,
+  parseWebhook,
+} from "./webhooks";
+
+/** Handlers keyed by event name */
+export type WebhookHandlers = { [E in WebhookEvent]?: WebhookHandler<E> };
+
+export interface WebhookHandlerOptions extends VerifyWebhookOptions {
+  /** Webhook secret, or several secrets while rotating */
+  secret: string | string[];
+  /** Handlers keyed by event name, or a configured WebhookDispatcher */
+  handlers: WebhookHandlers | WebhookDispatcher;
+  /** Called when verification, parsing or a handler fails */
+  onError?: (error: unknown) => void;
+}
+
+/** Framework-agnostic outcome of handling a delivery */
+export interface WebhookHandlerResult {
+  status: number;
+  body: { received: true; events: number } | { error: string };
+}
+
+function toDispatcher(handlers: WebhookHandlers | WebhookDispatcher): WebhookDispatcher {
+  if (handlers instanceof WebhookDispatcher) return handlers;
+  const dispatcher = new WebhookDispatcher();
+  for (const [event, handler] of Object.entries(handlers)) {
+    if (handler) dispatcher.on(event as WebhookEvent, handler as WebhookHandler);
+  }
+  return dispatcher;
+}
+
+/**
+ * Verify, parse and dispatch one delivery, and pick the HTTP status to answer with:
+ * 200 when handled, 401 on a bad signature, 400 on a malformed body,
+ * 500 when a handler throws or verification fails unexpectedly (Hou.la will retry the delivery).
+ * Never rejects: every error is passed to onError.
+ */
+export async function handleWebhookRequest(
+  rawBody: WebhookRawBody,
+  headers: WebhookHeaders,
+  options: WebhookHandlerOptions,
+  dispatcher = toDispatcher(options.handlers),
+): Promise<WebhookHandlerResult> {
+  let events;
+  try {
+    events = await parseWebhook(rawBody, headers, options.secret, options);
+  } catch (error) {
+    options.onError?.(error);
+    if (error instanceof HoulaWebhookError) {
+      return {
+        status: error.reason === "invalid_signature" ? 401 : 400,
+        body: { error: error.message },
+      };
+    }
+    return { status: 500, body: { error: "Webhook verification failed" } };
+  }
+
+  try {
+    await dispatcher.dispatch(events);
+  } catch (error) {
+    options.onError?.(error);
+    return { status: 500, body: { error: "Webhook handler failed" } };
+  }
+  return { status: 200, body: { received: true, events: events.length } };
+}
+
+/**
+ * Fetch API handler: Next.js route handlers, Cloudflare Workers, Deno, Bun, Hono...
+ * @example
+ * // app/api/webhooks/houla/route.ts
+ * export const POST = houlaWebhookHandler({ secret, handlers: { "link.clicked": (e) => ... } });
+ */
+export function houlaWebhookHandler(options: WebhookHandlerOptions): (request: Request) => Promise<Response> {
+  const dispatcher = toDispatcher(options.handlers);
+  return async (request) => {
+    if (request.method !== "POST") {
+      return Response.json({ error: "Method not allowed" }, { status: 405, headers: { Allow: "POST" } });
+    }
+    let rawBody: ArrayBuffer;
+    try {
+      rawBody = await request.arrayBuffer();
+    } catch (error) {
+      options.onError?.(error);
+      return Response.json({ error: "Could not read request body" }, { status: 400 });
+    }
+    const result = await handleWebhookRequest(rawBody, request.headers, options, dispatcher);
+    return Response.json(result.body, { status: result.status });
+  };
+}
+
+/** Minimal Node.js request (http.IncomingMessage, Express, Connect) */
+export interface NodeWebhookRequest {
+  method?: string;
+  headers: Record<string, string | string[] | undefined>;
+  /** Raw body set by express.raw() or a similar body parser */
+  body?: unknown;
+  /** Raw body set by frameworks or plugins that keep it alongside the parsed one */
+  rawBody?: unknown;
+}
+
+/** Minimal Node.js response (http.ServerResponse, Express) */
+export interface NodeWebhookResponse {
+  statusCode: number;
+  /** Set by Node.js once the response head has been written */
+  headersSent?: boolean;
+  setHeader(name: string, value: string): unknown;
+  end(body?: string): unknown;
+}
+
+function isRawBody(value: unknown): value is string | Uint8Array {
+  return typeof value === "string" || value instanceof Uint8Array;
+}
+
+async function readNodeBody(req: NodeWebhookRequest): Promise<WebhookRawBody | undefined> {
+  if (isRawBody(req.rawBody)) return req.rawBody;
+  if (isRawBody(req.body)) return req.body;
+  if (req.body !== undefined) return undefined;
+
+  const stream = req as unknown as AsyncIterable<string | Uint8Array>;
+  if (typeof stream[Symbol.asyncIterator] !== "function") return undefined;
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === "string" ? new TextEncoder().encode(chunk) : chunk);
+  }
+  const body = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+}
+
+/**
+ * Node.js `(req, res)` handler for http, Express and Connect.
+ * The raw body is required: mount it before any JSON body parser, or use express.raw().
+ * Answers 400 when the body stream fails, so the returned promise never rejects on a dropped connection.
+ * @example
+ * app.post("/webhooks/houla", express.raw({ type: "application/json" }), houlaWebhookMiddleware({ secret, handlers }));
+ */
+export function houlaWebhookMiddleware(
+  options: WebhookHandlerOptions,
+): (req: NodeWebhookRequest, res: NodeWebhookResponse) => Promise<void> {
+  const dispatcher = toDispatcher(options.handlers);
+  const send = (res: NodeWebhookResponse, status: number, body: unknown) => {
+    res.statusCode = status;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(body));
+  };
+
+  return async (req, res) => {
+    if (req.method && req.method !== "POST") {
+      res.setHeader("Allow", "POST");
+      return send(res, 405, { error: "Method not allowed" });
+    }
+    let rawBody;
+    try {
+      rawBody = await readNodeBody(req);
+    } catch (error) {
+      // The client aborted or the stream failed mid-body
+      options.onError?.(error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      return send(res, 400, { error: "Could not read request body" });
+    }
+    if (rawBody === undefined) {
+      return send(res, 400, {
+        error: "Raw request body unavailable: the body was already parsed. Use express.raw({ type: \"application/json\" }).",
+      });
+    }
+    const result = await handleWebhookRequest(rawBody, req.headers, options, dispatcher);
+    send(res, result.status, result.body);
+  };
+}
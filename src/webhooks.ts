@@ -0,0 +1,215 @@
+import { HoulaWebhookError } from "./errors";
+import { WebhookEvent, WebhookEventPayload } from "./types";
+
+/** Header carrying the HMAC-SHA256 signature of a webhook delivery */
+export const WEBHOOK_SIGNATURE_HEADER = "x-houla-signature";
+
+/** Raw request body, exactly as received */
+export type WebhookRawBody = string | Uint8Array | ArrayBuffer;
+
+export interface VerifyWebhookOptions {
+  /**
+   * Maximum age of a timestamped signature (`t=...,v1=...`), in seconds.
+   * Older deliveries are rejected to prevent replays. 0 disables the check. Default: 300.
+   */
+  toleranceSeconds?: number;
+  /** Reject signatures that carry no timestamp (default: false) */
+  requireTimestamp?: boolean;
+  /** Current time in milliseconds (default: Date.now()) */
+  now?: number;
+}
+
+interface ParsedSignature {
+  timestamp?: number;
+  signatures: string[];
+}
+
+/**
+ * Accepts either a bare hex digest (optionally prefixed with `sha256=`)
+ * or the timestamped form `t=<unix seconds>,v1=<hex>[,v1=<hex>]`.
+ */
+function parseSignatureHeader(header: string): ParsedSignature {
+  const value = header.trim();
+  if (!value.includes("=") || value.startsWith("sha256=")) {
+    return { signatures: [value.replace(/^sha256=/, "")] };
+  }
+  const parsed: ParsedSignature = { signatures: [] };
+  for (const part of value.split(",")) {
+    const [key, ...rest] = part.trim().split("=");
+    const partValue = rest.join("=");
+    if (key === "t") parsed.timestamp = Number(partValue);
+    else if (key === "v1") parsed.signatures.push(partValue);
+  }
+  return parsed;
+}
+
+function toBytes(body: WebhookRawBody): Uint8Array {
+  if (typeof body === "string") return new TextEncoder().encode(body);
+  return body instanceof Uint8Array ? body : new Uint8Array(body);
+}
+
+function hexToBytes(hex: string) {
+  if (hex.length === 0 || hex.length % 2 !== 0 || !/^[0-9a-f]+$/i.test(hex)) return null;
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function getSubtle(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error("Hou.la SDK: Web Crypto (globalThis.crypto.subtle) is not available in this runtime");
+  }
+  return subtle;
+}
+
+/**
+ * Verify the X-Houla-Signature header of a webhook delivery.
+ * Uses Web Crypto, so it runs in Node 18+, Cloudflare Workers, Deno and Edge runtimes.
+ *
+ * Always pass the raw body: re-serializing a parsed JSON body changes the bytes and breaks the signature.
+ *
+ * @param rawBody - Request body exactly as received
+ * @param signatureHeader - Value of the X-Houla-Signature header
+ * @param secret - Webhook secret, or several secrets while rotating with regenerateWebhookSecret
+ * @returns true if the signature matches one of the secrets and is within the tolerance window
+ */
+export async function verifyWebhookSignature(
+  rawBody: WebhookRawBody,
+  signatureHeader: string | null | undefined,
+  secret: string | string[],
+  options: VerifyWebhookOptions = {},
+): Promise<boolean> {
+  if (!signatureHeader) return false;
+  const { timestamp, signatures } = parseSignatureHeader(signatureHeader);
+
+  if (timestamp === undefined) {
+    if (options.requireTimestamp) return false;
+  } else {
+    if (!Number.isFinite(timestamp)) return false;
+    const toleranceSeconds = options.toleranceSeconds ?? 300;
+    const ageSeconds = Math.abs((options.now ?? Date.now()) / 1000 - timestamp);
+    if (toleranceSeconds > 0 && ageSeconds > toleranceSeconds) return false;
+  }
+
+  // Timestamped signatures cover "<timestamp>.<body>"
+  const encoder = new TextEncoder();
+  const body = toBytes(rawBody);
+  const prefix = timestamp !== undefined ? encoder.encode(`${timestamp}.`) : new Uint8Array(0);
+  const signed = new Uint8Array(prefix.length + body.length);
+  signed.set(prefix);
+  signed.set(body, prefix.length);
+
+  const subtle = getSubtle();
+  for (const candidate of Array.isArray(secret) ? secret : [secret]) {
+    if (!candidate) continue;
+    const key = await subtle.importKey("raw", encoder.encode(candidate), { name: "HMAC", hash: "SHA-256" }, false, [
+      "verify",
+    ]);
+    for (const signature of signatures) {
+      const bytes = hexToBytes(signature);
+      // subtle.verify compares in constant time
+      if (bytes && (await subtle.verify("HMAC", key, bytes, signed))) return true;
+    }
+  }
+  return false;
+}
+
+/** Incoming request headers: Fetch API Headers or a Node.js headers object */
+export type WebhookHeaders = Headers | Record<string, string | string[] | undefined>;
+
+function getHeader(headers: WebhookHeaders, name: string): string | undefined {
+  if (typeof (headers as Headers).get === "function") {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const record = headers as Record<string, string | string[] | undefined>;
+  const key = Object.keys(record).find((k) => k.toLowerCase() === name);
+  const value = key === undefined ? undefined : record[key];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function isEventPayload(value: any): value is WebhookEventPayload {
+  return typeof value === "object" && value !== null && typeof value.event === "string" && "data" in value;
+}
+
+/**
+ * Verify and parse a webhook delivery.
+ * Batched deliveries (webhooks with batchSize > 1) are flattened, so the result is always a list of events.
+ * @throws HoulaWebhookError when the signature is invalid or the body is not a webhook payload
+ * @example
+ * const events = await parseWebhook(await request.text(), request.headers, secret);
+ * for (const event of events) {
+ *   if (event.event === WebhookEvent.LINK_CLICKED) console.log(event.data.country);
+ * }
+ */
+export async function parseWebhook(
+  rawBody: WebhookRawBody,
+  headers: WebhookHeaders,
+  secret: string | string[],
+  options: VerifyWebhookOptions = {},
+): Promise<WebhookEventPayload[]> {
+  const signature = getHeader(headers, WEBHOOK_SIGNATURE_HEADER);
+  if (!(await verifyWebhookSignature(rawBody, signature, secret, options))) {
+    throw new HoulaWebhookError("Invalid webhook signature", "invalid_signature");
+  }
+
+  let body: any;
+  try {
+    body = JSON.parse(typeof rawBody === "string" ? rawBody : new TextDecoder().decode(rawBody));
+  } catch {
+    throw new HoulaWebhookError("Webhook body is not valid JSON", "invalid_payload");
+  }
+
+  const events: unknown[] = Array.isArray(body) ? body : Array.isArray(body?.events) ? body.events : [body];
+  if (!events.every(isEventPayload)) {
+    throw new HoulaWebhookError("Webhook body is not a Hou.la event payload", "invalid_payload");
+  }
+  return events as WebhookEventPayload[];
+}
+
+export type WebhookHandler<E extends WebhookEvent = WebhookEvent> = (
+  event: WebhookEventPayload<E>,
+) => void | Promise<void>;
+
+/**
+ * Route parsed webhook events to handlers by event name.
+ * @example
+ * const dispatcher = new WebhookDispatcher()
+ *   .on(WebhookEvent.LINK_CLICKED, (e) => track(e.data.linkId))
+ *   .on(WebhookEvent.LINK_HEALTH_CHANGED, (e) => alert(e.data.status));
+ * await dispatcher.dispatch(await parseWebhook(body, headers, secret));
+ */
+export class WebhookDispatcher {
+  private readonly handlers = new Map<WebhookEvent, WebhookHandler<any>[]>();
+  private readonly anyHandlers: WebhookHandler[] = [];
+
+  /** Register a handler for one event type */
+  on<E extends WebhookEvent>(event: E, handler: WebhookHandler<E>): this {
+    const list = this.handlers.get(event) ?? [];
+    list.push(handler);
+    this.handlers.set(event, list);
+    return this;
+  }
+
+  /** Register a handler for every event type */
+  onAny(handler: WebhookHandler): this {
+    this.anyHandlers.push(handler);
+    return this;
+  }
+
+  /** Whether at least one handler would receive this event type */
+  handles(event: WebhookEvent): boolean {
+    return this.anyHandlers.length > 0 || (this.handlers.get(event)?.length ?? 0) > 0;
+  }
+
+  /** Run the matching handlers for each event, in order. Handler errors propagate. */
+  async dispatch(events: WebhookEventPayload | WebhookEventPayload[]): Promise<void> {
+    for (const event of Array.isArray(events) ? events : [events]) {
+      for (const handler of [...(this.handlers.get(event.event) ?? []), ...this.anyHandlers]) {
+        await handler(event);
+      }
+    }
+  }
+}